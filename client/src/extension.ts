@@ -40,7 +40,10 @@ export function activate(context: ExtensionContext) {
 		documentSelector: [{ scheme: 'file', language: 'solidity', pattern: '**/*.sol' }],
 		synchronize: {
 			// Notify the server about specific file changes contained in the workspace
-			fileEvents: workspace.createFileSystemWatcher("**/*.sol")
+			fileEvents: [
+				workspace.createFileSystemWatcher("**/*.sol"),
+				workspace.createFileSystemWatcher("**/{foundry.toml,remappings.txt,hardhat.config.*,openzeppelin-ls.json}")
+			]
 		}
 	};
 
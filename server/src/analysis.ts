@@ -0,0 +1,175 @@
+import { CancellationToken, CodeAction, Diagnostic, DocumentSymbol, FormattingOptions, Hover, Location, WorkspaceEdit } from 'vscode-languageserver';
+import { Position, Range, TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { AnalysisContext } from './context';
+import { validateTextDocument } from './diagnostics';
+import { getCodeActions } from './codeActions';
+import { getHover } from './hover';
+import { getDocumentSymbols } from './symbols';
+import { getDefinition, getReferences } from './navigation';
+import { prepareRename, renameNamespaceId } from './rename';
+import { createDocumentCache, DocumentCache } from './documentCache';
+import { OpenZeppelinLSSettings } from './settings';
+
+import path from 'path';
+
+/**
+ * The analysis API. It does not depend on a language server connection, so it can be used by the language server,
+ * the command line interface, tests and build tool plugins alike.
+ */
+
+export type { AnalysisContext } from './context';
+export { AnalysisCancelledError } from './context';
+export type { DocumentCache } from './documentCache';
+export { createDocumentCache } from './documentCache';
+export type { OpenZeppelinLSSettings, TemplateSettings } from './settings';
+export { NON_NAMESPACED_STORAGE_LABEL } from './symbols';
+export { InvalidNamespaceIdError, NAMESPACE_ID_IN_USE_ANNOTATION } from './rename';
+export type { NamespaceableContract } from './diagnostics';
+export {
+	VARIABLE_CAN_BE_NAMESPACED,
+	CONTRACT_CAN_BE_NAMESPACED,
+	NAMESPACE_ID_MISMATCH,
+	NAMESPACE_ID_MISMATCH_HASH_COMMENT,
+	NAMESPACE_HASH_MISMATCH,
+	NAMESPACE_STANDALONE_HASH_MISMATCH,
+	VARIABLE_HAS_INITIAL_VALUE,
+	MULTIPLE_NAMESPACES,
+	DUPLICATE_NAMESPACE_ID,
+	INHERITED_STORAGE_VARIABLES,
+	STORAGE_LAYOUT_INCOMPATIBLE,
+	STORAGE_VARIABLE_RENAMED,
+	UPGRADES_FROM_REFERENCE_NOT_FOUND,
+	CONSTRUCTOR_IN_UPGRADEABLE_CONTRACT,
+	SOLIDITY_VERSION_MISMATCH,
+	STORAGE_GAP_CAN_BE_REMOVED,
+	STORAGE_GAP_SIZE_MISMATCH,
+	NAMESPACE_FIELD_NESTED_STRUCT,
+	NAMESPACE_FIELD_STRUCT_ARRAY,
+	NAMESPACE_FIELD_CONSTANT_LOOKALIKE,
+	NAMESPACE_FIELDS_APPEND_ONLY,
+} from './diagnostics';
+
+/**
+ * A Solidity source file to analyze. Either a text document, or the path and text of a file.
+ * The path is used to resolve imports and does not need to exist if the source does not import other files.
+ */
+export type Source = TextDocument | { filePath: string, text: string };
+
+export type AnalysisOptions = {
+	/**
+	 * The root folders of the project, used to resolve imports, find project configuration and infer the namespace prefix.
+	 */
+	workspaceFolders?: string[];
+	/**
+	 * The settings to analyze with.
+	 */
+	settings?: OpenZeppelinLSSettings;
+	/**
+	 * The editor's formatting options, used for generated code if the indentation cannot be inferred from the source.
+	 */
+	formattingOptions?: FormattingOptions;
+	/**
+	 * Whether diagnostics should include related information with their details. Defaults to true.
+	 */
+	relatedInformation?: boolean;
+	/**
+	 * A cache from `createDocumentCache` to reuse parsed documents across calls, e.g. between diagnostics and quick fixes of the same document version.
+	 * It must be cleared when the settings or project config files change. Defaults to a new cache for each call.
+	 */
+	documentCache?: DocumentCache;
+	/**
+	 * Cancels the analysis. A cancelled analysis rejects with `AnalysisCancelledError`.
+	 */
+	cancellationToken?: CancellationToken;
+}
+
+export type AnalysisResult = {
+	/**
+	 * The URI of the analyzed document.
+	 */
+	uri: string;
+	diagnostics: Diagnostic[];
+}
+
+/**
+ * Analyzes a source file and returns its diagnostics.
+ */
+export async function analyze(source: Source, options: AnalysisOptions = {}): Promise<AnalysisResult> {
+	const textDocument = toTextDocument(source);
+	const diagnostics = await validateTextDocument(textDocument, createAnalysisContext(options));
+	if (options.relatedInformation === false) {
+		diagnostics.forEach(diagnostic => delete diagnostic.relatedInformation);
+	}
+	return { uri: textDocument.uri, diagnostics };
+}
+
+/**
+ * Gets the quick fixes for diagnostics of a source file, which were returned by `analyze` for the same source.
+ */
+export async function getQuickFixes(source: Source, diagnostics: Diagnostic[], options: AnalysisOptions = {}): Promise<CodeAction[]> {
+	return getCodeActions(diagnostics, toTextDocument(source), createAnalysisContext(options));
+}
+
+/**
+ * Gets the hover information at a position in a source file, if any.
+ */
+export async function getHoverInfo(source: Source, position: Position, options: AnalysisOptions = {}): Promise<Hover | undefined> {
+	return getHover(toTextDocument(source), position, createAnalysisContext(options));
+}
+
+/**
+ * Gets the outline of a source file: its contracts with their namespaces and non-namespaced state variables.
+ */
+export async function getOutline(source: Source, options: AnalysisOptions = {}): Promise<DocumentSymbol[]> {
+	return getDocumentSymbols(toTextDocument(source), createAnalysisContext(options));
+}
+
+/**
+ * Finds the definition of the namespace field, location constant or namespace at a position in a source file, if any.
+ */
+export async function findDefinition(source: Source, position: Position, options: AnalysisOptions = {}): Promise<Location | undefined> {
+	return getDefinition(toTextDocument(source), position, createAnalysisContext(options));
+}
+
+/**
+ * Finds the references to the namespace field, location constant or namespace at a position in a source file.
+ */
+export async function findReferences(source: Source, position: Position, includeDeclaration: boolean, options: AnalysisOptions = {}): Promise<Location[]> {
+	return getReferences(toTextDocument(source), position, includeDeclaration, createAnalysisContext(options));
+}
+
+/**
+ * Gets the range and current text of the namespace id at a position in a source file, if it can be renamed.
+ */
+export async function getNamespaceIdToRename(source: Source, position: Position, options: AnalysisOptions = {}): Promise<{ range: Range, placeholder: string } | undefined> {
+	return prepareRename(toTextDocument(source), position, createAnalysisContext(options));
+}
+
+/**
+ * Renames the namespace id at a position in a source file, along with the hash comment and value of its location constant.
+ * Rejects with `InvalidNamespaceIdError` if the new id cannot be used.
+ */
+export async function renameNamespace(source: Source, position: Position, newNamespaceId: string, options: AnalysisOptions = {}): Promise<WorkspaceEdit | undefined> {
+	return renameNamespaceId(toTextDocument(source), position, newNamespaceId, createAnalysisContext(options));
+}
+
+/**
+ * Creates the context that is passed to the analysis modules, filling in defaults for options that are not given.
+ */
+export function createAnalysisContext(options: AnalysisOptions): AnalysisContext {
+	return {
+		workspaceFolders: (options.workspaceFolders ?? []).map(folder => path.resolve(folder)),
+		settings: options.settings ?? {},
+		formattingOptions: options.formattingOptions,
+		documentCache: options.documentCache ?? createDocumentCache(),
+		cancellationToken: options.cancellationToken,
+	};
+}
+
+function toTextDocument(source: Source): TextDocument {
+	if ('filePath' in source) {
+		return TextDocument.create(URI.file(path.resolve(source.filePath)).toString(), 'solidity', 0, source.text);
+	}
+	return source;
+}
@@ -0,0 +1,293 @@
+#!/usr/bin/env node
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { analyze, AnalysisOptions, CONTRACT_CAN_BE_NAMESPACED, getQuickFixes, STORAGE_GAP_CAN_BE_REMOVED, VARIABLE_CAN_BE_NAMESPACED, VARIABLE_HAS_INITIAL_VALUE } from './analysis';
+import { FileDiagnostics, formatReport, REPORT_FORMATS, ReportFormat } from './report';
+import { findSolidityFiles, IGNORED_DIRECTORIES, readTextDocument } from './workspace';
+import { getLibraryDirectories } from './foundry';
+
+import path from 'path';
+import { promises as fs } from 'fs';
+
+const USAGE = `\
+Usage: openzeppelin-ls <check|fix> [options] [files, directories or globs...]
+
+Commands:
+  check                      Report diagnostics
+  fix                        Apply quick fixes in place, then report the remaining diagnostics
+
+Options:
+  --format <format>          Output format: ${REPORT_FORMATS.join(', ')} (default: text)
+  --root <dir>               Project root used to resolve imports and relative paths (default: current directory)
+  --namespace-prefix <id>    Prefix for ERC-7201 namespace ids (default: name of the project root)
+  --solidity-version <ver>   Solidity version to parse with (default: inferred from pragmas)
+  --rule <code>              Only apply quick fixes for diagnostics with this code. Can be repeated.
+                             Without it, fixes that change the storage layout are not applied: ContractCanBeNamespaced,
+                             VariableCanBeNamespaced, StorageGapCanBeRemoved and VariableHasInitialValue.
+  --verbose                  Print log messages to stderr
+  --help                     Show this message
+
+If no files are given, all Solidity files in the project root are checked, except for dependencies and build outputs.
+Exits with code 1 if any errors remain, or 2 if the arguments are invalid.
+`;
+
+/**
+ * The maximum number of quick fixes applied to a single file, in case a fix does not resolve its diagnostic.
+ */
+const MAX_FIXES_PER_FILE = 100;
+
+type Command = 'check' | 'fix';
+
+type Options = {
+	command: Command;
+	format: ReportFormat;
+	root: string;
+	namespacePrefix?: string;
+	solidityVersion?: string;
+	rules: string[];
+	verbose: boolean;
+	patterns: string[];
+}
+
+class UsageError extends Error {}
+
+function parseArguments(args: string[]): Options {
+	const [command, ...rest] = args;
+	if (command !== 'check' && command !== 'fix') {
+		throw new UsageError(command === undefined ? 'Missing command' : `Unknown command: ${command}`);
+	}
+
+	const options: Options = {
+		command,
+		format: 'text',
+		root: process.cwd(),
+		rules: [],
+		verbose: false,
+		patterns: [],
+	};
+
+	for (let i = 0; i < rest.length; i++) {
+		const arg = rest[i];
+		const getValue = () => {
+			const value = rest[++i];
+			if (value === undefined) {
+				throw new UsageError(`Missing value for ${arg}`);
+			}
+			return value;
+		};
+
+		switch (arg) {
+			case '--format': {
+				const format = getValue();
+				if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+					throw new UsageError(`Unknown format: ${format}`);
+				}
+				options.format = format as ReportFormat;
+				break;
+			}
+			case '--root':
+				options.root = path.resolve(getValue());
+				break;
+			case '--namespace-prefix':
+				options.namespacePrefix = getValue();
+				break;
+			case '--solidity-version':
+				options.solidityVersion = getValue();
+				break;
+			case '--rule':
+				options.rules.push(getValue());
+				break;
+			case '--verbose':
+				options.verbose = true;
+				break;
+			default:
+				if (arg.startsWith('--')) {
+					throw new UsageError(`Unknown option: ${arg}`);
+				}
+				options.patterns.push(arg);
+		}
+	}
+
+	return options;
+}
+
+/**
+ * Resolves the given files, directories and globs to Solidity files. Globs are matched against paths relative to the project root.
+ */
+async function resolveFiles(patterns: string[], root: string): Promise<string[]> {
+	// dependencies in library folders are only used to resolve imports, and are not checked by default
+	const ignoredDirectories = [...IGNORED_DIRECTORIES, ...await getLibraryDirectories(root)];
+	if (patterns.length === 0) {
+		return findSolidityFiles([root], ignoredDirectories);
+	}
+
+	const files = new Set<string>();
+	let projectFiles: string[] | undefined = undefined;
+
+	for (const pattern of patterns) {
+		const resolved = path.resolve(root, pattern);
+		const stat = await fs.stat(resolved).catch(() => undefined);
+		if (stat?.isFile()) {
+			files.add(resolved);
+		} else if (stat?.isDirectory()) {
+			for (const file of await findSolidityFiles([resolved], ignoredDirectories)) {
+				files.add(file);
+			}
+		} else {
+			projectFiles ??= await findSolidityFiles([root], IGNORED_DIRECTORIES);
+			const regex = globToRegExp(pattern);
+			const matches = projectFiles.filter(file => regex.test(toPosixPath(path.relative(root, file))));
+			if (matches.length === 0) {
+				throw new UsageError(`No files match ${pattern}`);
+			}
+			matches.forEach(file => files.add(file));
+		}
+	}
+
+	return [...files];
+}
+
+/**
+ * Converts a glob to a regular expression. Supports `**` for any number of directories, `*` and `?`.
+ */
+export function globToRegExp(glob: string): RegExp {
+	let regex = '';
+	const normalized = toPosixPath(glob).replace(/^\.\//, '');
+	for (let i = 0; i < normalized.length; i++) {
+		const char = normalized[i];
+		if (char === '*' && normalized[i + 1] === '*') {
+			if (normalized[i + 2] === '/') {
+				regex += '(?:.*/)?';
+				i += 2;
+			} else {
+				regex += '.*';
+				i += 1;
+			}
+		} else if (char === '*') {
+			regex += '[^/]*';
+		} else if (char === '?') {
+			regex += '[^/]';
+		} else {
+			regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${regex}$`);
+}
+
+function toPosixPath(filePath: string) {
+	return filePath.split(path.sep).join('/');
+}
+
+/**
+ * Rules whose quick fixes move state variables into a namespace, remove storage gaps or move initial values into the initializer.
+ * Applied to a contract that is already deployed behind a proxy, they would change its storage layout, or move initial values into an initializer that has already run.
+ */
+const LAYOUT_CHANGING_RULES = [CONTRACT_CAN_BE_NAMESPACED, VARIABLE_CAN_BE_NAMESPACED, STORAGE_GAP_CAN_BE_REMOVED, VARIABLE_HAS_INITIAL_VALUE];
+
+/**
+ * Whether a diagnostic is fixed when no rules are given. Fixes that change the storage layout are only applied if their rules are given,
+ * even for upgradeable contracts, since the tool cannot tell whether a contract has already been deployed.
+ */
+function isFixedByDefault(diagnostic: Diagnostic) {
+	return !LAYOUT_CHANGING_RULES.includes(String(diagnostic.code));
+}
+
+/**
+ * Repeatedly applies the first quick fix of the first fixable diagnostic, until no fixable diagnostics remain.
+ *
+ * @returns the fixed document and the number of fixes that were applied
+ */
+export async function fixTextDocument(textDocument: TextDocument, rules: string[], analysisOptions: AnalysisOptions): Promise<{ textDocument: TextDocument, fixCount: number }> {
+	let fixCount = 0;
+	while (fixCount < MAX_FIXES_PER_FILE) {
+		const diagnostics = (await analyze(textDocument, analysisOptions)).diagnostics.filter(diagnostic => rules.length === 0 ? isFixedByDefault(diagnostic) : rules.includes(String(diagnostic.code)));
+
+		let fixed = false;
+		for (const diagnostic of diagnostics) {
+			const codeActions = await getQuickFixes(textDocument, [diagnostic], analysisOptions);
+			const edits = codeActions[0]?.edit?.changes?.[textDocument.uri];
+			if (edits !== undefined && edits.length > 0) {
+				const text = TextDocument.applyEdits(textDocument, edits);
+				textDocument = TextDocument.create(textDocument.uri, textDocument.languageId, textDocument.version + 1, text);
+				fixCount++;
+				fixed = true;
+				break;
+			}
+		}
+		if (!fixed) {
+			break;
+		}
+	}
+	return { textDocument, fixCount };
+}
+
+async function run(options: Options): Promise<number> {
+	const analysisOptions: AnalysisOptions = {
+		workspaceFolders: [options.root],
+		settings: {
+			namespacePrefix: options.namespacePrefix,
+			solidityVersion: options.solidityVersion,
+		},
+		relatedInformation: false,
+	};
+
+	const results: FileDiagnostics[] = [];
+	for (const filePath of await resolveFiles(options.patterns, options.root)) {
+		let textDocument = await readTextDocument(filePath);
+
+		if (options.command === 'fix') {
+			const result = await fixTextDocument(textDocument, options.rules, analysisOptions);
+			if (result.fixCount > 0) {
+				textDocument = result.textDocument;
+				await fs.writeFile(filePath, textDocument.getText(), 'utf8');
+				process.stderr.write(`Applied ${result.fixCount} fix${result.fixCount === 1 ? '' : 'es'} to ${path.relative(options.root, filePath)}\n`);
+			}
+		}
+
+		results.push({
+			file: toPosixPath(path.relative(options.root, filePath)),
+			diagnostics: (await analyze(textDocument, analysisOptions)).diagnostics,
+		});
+	}
+
+	process.stdout.write(formatReport(results, options.format));
+
+	const hasErrors = results.some(result => result.diagnostics.some((diagnostic: Diagnostic) => diagnostic.severity === DiagnosticSeverity.Error));
+	return hasErrors ? 1 : 0;
+}
+
+async function main(args: string[]) {
+	if (args.includes('--help') || args.length === 0) {
+		process.stdout.write(USAGE);
+		return 0;
+	}
+
+	let options: Options;
+	try {
+		options = parseArguments(args);
+	} catch (e: any) {
+		process.stderr.write(`${e.message}\n\n${USAGE}`);
+		return 2;
+	}
+
+	if (!options.verbose) {
+		// the analysis logs its progress, which is only useful when debugging
+		console.log = () => {};
+		console.error = () => {};
+	} else {
+		console.log = console.error;
+	}
+
+	try {
+		return await run(options);
+	} catch (e: any) {
+		process.stderr.write(`${e.message}\n`);
+		return e instanceof UsageError ? 2 : 1;
+	}
+}
+
+if (require.main === module) {
+	main(process.argv.slice(2)).then(exitCode => {
+		process.exitCode = exitCode;
+	});
+}
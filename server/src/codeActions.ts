@@ -0,0 +1,99 @@
+import { CodeAction, CodeActionKind, Diagnostic, Range, TextEdit, WorkspaceEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CONSTRUCTOR_IN_UPGRADEABLE_CONTRACT, CONTRACT_CAN_BE_NAMESPACED, NAMESPACE_HASH_MISMATCH, NAMESPACE_ID_MISMATCH, NAMESPACE_ID_MISMATCH_HASH_COMMENT, NAMESPACE_STANDALONE_HASH_MISMATCH, NamespaceableContract, STORAGE_GAP_CAN_BE_REMOVED, VARIABLE_CAN_BE_NAMESPACED, VARIABLE_HAS_INITIAL_VALUE } from './diagnostics';
+import { getConvertConstructorToInitializerQuickFix, getMoveAllVariablesToNamespaceQuickFix, getMoveInitialValueToInitializerQuickFix, getMoveVariableToNamespaceQuickFix } from './quickfixes';
+import { getParsedDocument } from './documentCache';
+import { Variable } from './namespace';
+import { StorageGap } from './storageSlots';
+import { AnalysisContext } from './context';
+
+/**
+ * Gets the quick fixes for the given diagnostics of a document.
+ */
+export async function getCodeActions(diagnostics: Diagnostic[], textDocument: TextDocument, context: AnalysisContext) : Promise<CodeAction[]> {
+	let codeActions : CodeAction[] = [];
+	try {	
+		for (let i = 0; i < diagnostics.length; i++) {
+			let diagnostic = diagnostics[i];
+			if (String(diagnostic.code) === NAMESPACE_ID_MISMATCH) {
+				let title : string = "Replace namespace id";
+				let range : Range = diagnostic.data.replacementRange ?? diagnostic.range;
+				let replacement : string = String(diagnostic.data.replacement);
+				codeActions.push(getQuickFixReplacement([diagnostic], title, range, replacement, textDocument));
+			} else if (String(diagnostic.code) === NAMESPACE_ID_MISMATCH_HASH_COMMENT) {
+				let title : string = "Replace namespace comment";
+				let range : Range = diagnostic.data.replacementRange ?? diagnostic.range;
+				let replacement : string = String(diagnostic.data.replacement);
+				codeActions.push(getQuickFixReplacement([diagnostic], title, range, replacement, textDocument));
+			} else if (String(diagnostic.code) === NAMESPACE_HASH_MISMATCH) {
+				let title : string = "Recalculate hash using comment";
+				let range : Range = diagnostic.range;
+				let replacement : string = String(diagnostic.data.replacement);
+				codeActions.push(getQuickFixReplacement([diagnostic], title, range, replacement, textDocument));
+			} else if (String(diagnostic.code) === NAMESPACE_STANDALONE_HASH_MISMATCH) {
+				let title : string = "Recalculate hash using expected id";
+				let range : Range = diagnostic.range;
+				let replacement : string = String(diagnostic.data.replacement);
+				codeActions.push(getQuickFixReplacement([diagnostic], title, range, replacement, textDocument));
+			} else if (String(diagnostic.code) === VARIABLE_HAS_INITIAL_VALUE) {
+				const title = "Move initial value to initializer";
+				const quickfix = await getMoveInitialValueToInitializerQuickFix([diagnostic], title, String(diagnostic.data.contractName), String(diagnostic.data.variableName), textDocument, context);
+				if (quickfix !== undefined) {
+					codeActions.push(quickfix);
+				}
+				await pushMoveVariableToNamespaceQuickFix(diagnostic, textDocument, context, codeActions);
+			} else if (String(diagnostic.code) === VARIABLE_CAN_BE_NAMESPACED) {
+				await pushMoveVariableToNamespaceQuickFix(diagnostic, textDocument, context, codeActions);
+			} else if (String(diagnostic.code) === STORAGE_GAP_CAN_BE_REMOVED) {
+				const storageGap = diagnostic.data.storageGap as StorageGap;
+				codeActions.push(getQuickFixReplacement([diagnostic], "Remove storage gap", storageGap.removalRange, "", textDocument));
+			} else if (String(diagnostic.code) === CONSTRUCTOR_IN_UPGRADEABLE_CONTRACT) {
+				const title = "Convert constructor to initializer";
+				const quickfix = await getConvertConstructorToInitializerQuickFix([diagnostic], title, String(diagnostic.data.contractName), textDocument, context);
+				if (quickfix !== undefined) {
+					codeActions.push(quickfix);
+				}
+			} else if (String(diagnostic.code) === CONTRACT_CAN_BE_NAMESPACED) {
+				const title = "Move all variables to namespace";
+				const prefix = (await getParsedDocument(textDocument, context)).namespacePrefix;
+				const contractName = (diagnostic.data as NamespaceableContract).name;
+				const { variables, storageGaps } = diagnostic.data as NamespaceableContract;
+				const quickfix = await getMoveAllVariablesToNamespaceQuickFix(diagnostics, title, prefix, contractName, variables, storageGaps ?? [], textDocument, context); // this fixes all diagnostics in scope
+				if (quickfix !== undefined) {
+					codeActions.push(quickfix);
+				}
+			}
+		}
+	} catch (e) {
+		console.error(e);
+	}
+
+	return codeActions;
+}
+
+async function pushMoveVariableToNamespaceQuickFix(diagnostic: Diagnostic, textDocument: TextDocument, context: AnalysisContext, codeActions: CodeAction[]) {
+	const variable = diagnostic.data.variable as Variable;
+	const title = `Move variable \`${variable.name}\` to namespace`;
+	const prefix = (await getParsedDocument(textDocument, context)).namespacePrefix;
+	const quickfix = await getMoveVariableToNamespaceQuickFix([diagnostic], title, prefix, String(diagnostic.data.contractName), variable, textDocument, context);
+	if (quickfix !== undefined) {
+		codeActions.push(quickfix);
+	}
+}
+
+function getQuickFixReplacement(fixesDiagnostics: Diagnostic[], title: string, range: Range, replacement: string, textDocument: TextDocument): CodeAction {
+	let textEdit: TextEdit = {
+		range: range,
+		newText: replacement
+	};
+	let workspaceEdit: WorkspaceEdit = {
+		changes: { [textDocument.uri]: [textEdit] }
+	};
+	let codeAction: CodeAction = {
+		title: title,
+		kind: CodeActionKind.QuickFix,
+		edit: workspaceEdit,
+		diagnostics: fixesDiagnostics,
+	};
+	return codeAction;
+}
@@ -0,0 +1,48 @@
+import { CancellationToken, FormattingOptions } from 'vscode-languageserver';
+import type { DocumentCache } from './documentCache';
+import type { OpenZeppelinLSSettings } from './settings';
+
+/**
+ * The inputs of an analysis besides the document itself. These are passed explicitly by the entry point that runs the analysis,
+ * such as the language server or the command line interface.
+ */
+export type AnalysisContext = {
+	/**
+	 * The root folders of the workspace, used to resolve imports and to find project configuration.
+	 */
+	workspaceFolders: string[];
+	/**
+	 * The settings for the document.
+	 */
+	settings: OpenZeppelinLSSettings;
+	/**
+	 * The formatting options of the editor for the document, if any.
+	 */
+	formattingOptions?: FormattingOptions;
+	/**
+	 * The parsed documents, which are shared by the analyses that use this cache.
+	 */
+	documentCache: DocumentCache;
+	/**
+	 * Cancels the analysis, e.g. when a newer version of the document is being analyzed.
+	 */
+	cancellationToken?: CancellationToken;
+}
+
+/**
+ * Thrown by an analysis that stops because its cancellation token was cancelled.
+ */
+export class AnalysisCancelledError extends Error {
+	constructor() {
+		super('Analysis was cancelled');
+	}
+}
+
+/**
+ * Throws `AnalysisCancelledError` if the analysis was cancelled. Called between steps of an analysis, since parsing cannot be interrupted.
+ */
+export function throwIfCancelled(context: AnalysisContext) {
+	if (context.cancellationToken?.isCancellationRequested) {
+		throw new AnalysisCancelledError();
+	}
+}
@@ -1,19 +1,25 @@
 import {
 	Diagnostic,
-	DiagnosticSeverity
+	DiagnosticRelatedInformation,
+	DiagnosticSeverity,
+	LSPAny
 } from 'vscode-languageserver/node';
-import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Range, TextDocument } from 'vscode-languageserver-textdocument';
 import { NonterminalKind, TerminalKind } from "@nomicfoundation/slang/kinds";
-import { calculateERC7201StorageLocation, getNamespaceId, PublicGetter } from './namespace';
+import { calculateERC7201StorageLocation, getNamespaceId, PublicGetter, Variable } from './namespace';
 import { Language } from '@nomicfoundation/slang/language';
 import assert = require('node:assert');
 import { NonterminalNode, TerminalNode } from '@nomicfoundation/slang/cst';
-import { ContractDefinition, FunctionDefinition, StateVariableDefinition } from '@nomicfoundation/slang/ast';
+import { ArrayTypeName, AssignmentExpression, ConstructorDefinition, ContractDefinition, ExpressionStatement, FunctionDefinition, ModifierInvocation, MappingType, StateVariableDefinition, Statement, StructMember, TypeName } from '@nomicfoundation/slang/ast';
 import { cursor, parse_output, text_index } from '@nomicfoundation/slang';
-import { slangToVSCodeRange, getTrimmedRange, getNatSpec, getLastPrecedingTriviaWithKinds } from './helpers/slang';
-import { NamespaceableContract, addDiagnostic, workspaceFolders } from './server';
-import { getNamespacePrefix } from './settings';
-import { inferSolidityVersion } from './solidityVersion';
+import { slangToVSCodeRange, getTrimmedRange, getNatSpec, getLastPrecedingTriviaWithKinds, TriviaTextWithRange, advanceTextIndex, getStartIncludingLeadingComments } from './helpers/slang';
+import { AnalysisContext, throwIfCancelled } from './context';
+import { getParsedDocument } from './documentCache';
+import { SolidityVersionResolution } from './solidityVersion';
+import { combineStorageLayouts, compareStorageLayouts, StorageLayout } from './layout';
+import { AncestorContract, findReferenceContract, getAncestorContracts, getImportedStructs, getInheritedNamespaces, getLinearizedContracts, IndexedFile, indexParsedFile } from './workspaceIndex';
+import { getNamespaceFieldIssues } from './namespaceHealth';
+import { collectTypeDefinitions, countStorageSlots, getStorageGapSize, getStorageSize, StorageGap, StorageSize, STORAGE_GAP_TOTAL_SLOTS, TypeDefinitions } from './storageSlots';
 
 export const VARIABLE_CAN_BE_NAMESPACED = "VariableCanBeNamespaced";
 export const CONTRACT_CAN_BE_NAMESPACED = "ContractCanBeNamespaced";
@@ -24,14 +30,84 @@ export const NAMESPACE_STANDALONE_HASH_MISMATCH = "NamespaceStandaloneHashMismat
 export const VARIABLE_HAS_INITIAL_VALUE = "VariableHasInitialValue";
 export const MULTIPLE_NAMESPACES = "MultipleNamespaces";
 export const DUPLICATE_NAMESPACE_ID = "DuplicateNamespaceId";
+export const INHERITED_STORAGE_VARIABLES = "InheritedStorageVariables";
+export const STORAGE_LAYOUT_INCOMPATIBLE = "StorageLayoutIncompatible";
+export const STORAGE_VARIABLE_RENAMED = "StorageVariableRenamed";
+export const UPGRADES_FROM_REFERENCE_NOT_FOUND = "UpgradesFromReferenceNotFound";
+export const CONSTRUCTOR_IN_UPGRADEABLE_CONTRACT = "ConstructorInUpgradeableContract";
+export const SOLIDITY_VERSION_MISMATCH = "SolidityVersionMismatch";
+export const STORAGE_GAP_CAN_BE_REMOVED = "StorageGapCanBeRemoved";
+export const STORAGE_GAP_SIZE_MISMATCH = "StorageGapSizeMismatch";
+export const NAMESPACE_FIELD_NESTED_STRUCT = "NamespaceFieldNestedStruct";
+export const NAMESPACE_FIELD_STRUCT_ARRAY = "NamespaceFieldStructArray";
+export const NAMESPACE_FIELD_CONSTANT_LOOKALIKE = "NamespaceFieldConstantLookalike";
+export const NAMESPACE_FIELDS_APPEND_ONLY = "NamespaceFieldsAppendOnly";
+
+export type NamespaceableContract = {
+	name: string;
+	/**
+	 * Whether the contract is inferred to be upgradeable. The variables of other contracts are not reported individually.
+	 */
+	upgradeable: boolean;
+	variables: Variable[];
+	/**
+	 * Storage gaps are not moved to the namespace, but removed along with the variables.
+	 */
+	storageGaps: StorageGap[];
+}
+
+/**
+ * Parses a document and validates its namespaces.
+ */
+export async function validateTextDocument(textDocument: TextDocument, context: AnalysisContext): Promise<Diagnostic[]> {
+	const diagnostics: Diagnostic[] = [];
+
+	const { solidityVersion, language, parseOutput } = await getParsedDocument(textDocument, context);
+	throwIfCancelled(context);
+	validateSolidityVersion(solidityVersion, textDocument, diagnostics);
+
+	await validateNamespaces(parseOutput, language, textDocument, context, diagnostics);
+
+	return diagnostics;
+}
+
+/**
+ * Generates a diagnostic on each pragma that the configured Solidity version does not satisfy.
+ */
+export function validateSolidityVersion(solidityVersion: SolidityVersionResolution, textDocument: TextDocument, diagnostics: Diagnostic[]) {
+	const mismatch = solidityVersion.mismatch;
+	if (mismatch === undefined) {
+		return;
+	}
+
+	for (const pragma of mismatch.unsatisfiedPragmas) {
+		addDiagnostic(
+			diagnostics,
+			textDocument,
+			slangToVSCodeRange(textDocument, pragma.textRange),
+			mismatch.version !== undefined
+				? `Solidity version ${mismatch.version} from ${mismatch.origin} does not satisfy pragma \`${pragma.versionRange}\``
+				: `No compiler in ${mismatch.origin} satisfies pragma \`${pragma.versionRange}\``,
+			`The file was analyzed with Solidity version ${solidityVersion.version} from the pragma instead. Update the compiler version in ${mismatch.origin} or the pragma.`,
+			DiagnosticSeverity.Warning,
+			SOLIDITY_VERSION_MISMATCH,
+			{ configuredVersion: mismatch.version, versionRange: pragma.versionRange }
+		);
+	}
+}
 
 function getExpectedNamespaceId(namespacePrefix: string, contractDef: ContractDefinition) {
 	return getNamespaceId(namespacePrefix, contractDef.name.text);
 }
 
-export async function validateNamespaces(parseOutput: parse_output.ParseOutput, language: Language, textDocument: TextDocument, diagnostics: Diagnostic[]) {
+export async function validateNamespaces(parseOutput: parse_output.ParseOutput, language: Language, textDocument: TextDocument, context: AnalysisContext, diagnostics: Diagnostic[]) {
+	const indexedFile = indexParsedFile(textDocument, parseOutput);
+	const typeDefinitions = collectTypeDefinitions(parseOutput);
+
 	const cursor = parseOutput.createTreeCursor();
 	while (cursor.goToNextNonterminalWithKind(NonterminalKind.ContractDefinition)) {
+		throwIfCancelled(context);
+
 		const cursorNode = cursor.node();
 		assert(cursorNode instanceof NonterminalNode);
 		const contractDef = new ContractDefinition(cursorNode);
@@ -39,25 +115,29 @@ export async function validateNamespaces(parseOutput: parse_output.ParseOutput,
 
 		const parseContract = language.parse(NonterminalKind.ContractDefinition, cursorNode.unparse());
 		if (!parseContract.isValid) {
-			console.log("Contract has errors");
+			// skip contracts with syntax errors
 			continue;
-		} else {
-			console.log("Parsing contract: " + contractDef.name.text);
 		}
 
+		const inferredUpgradeable = inferUpgradeable(cursor, contractDef);
 		const namespaceableContract: NamespaceableContract = {
 			name: contractDef.name.text,
-			variables: []
+			upgradeable: inferredUpgradeable,
+			variables: [],
+			storageGaps: [],
 		};
 
-		const inferredUpgradeable = inferUpgradeable(cursor, contractDef);
 		if (inferredUpgradeable) {
-			const foundSingleNamespace = await validateNamespaceStructAnnotation(cursor, textDocument, contractDef, diagnostics);
+			const foundSingleNamespace = await validateNamespaceStructAnnotation(cursor, textDocument, context, contractDef, diagnostics);
 			if (foundSingleNamespace !== undefined) {
 				await validateNamespaceCommentAndHash(foundSingleNamespace.namespaceId, cursor, textDocument, contractDef, diagnostics);
 			}
+			await validateNamespaceHealth(cursor, indexedFile, language, typeDefinitions, textDocument, context, diagnostics);
+			await validateStorageLayoutAgainstReference(cursor, indexedFile, language, textDocument, context, contractDef, diagnostics);
+			validateConstructor(cursor, textDocument, contractDef, diagnostics);
 		}
-		await validateNamespaceableVariables(cursor, textDocument, diagnostics, namespaceableContract, !inferredUpgradeable);
+		await validateInheritanceTree(cursor, indexedFile, language, textDocument, context, contractDef, inferredUpgradeable, diagnostics);
+		validateNamespaceableVariables(cursor, language, typeDefinitions, textDocument, diagnostics, namespaceableContract, !inferredUpgradeable);
 		validateNamespaceableContract(cursor, diagnostics, textDocument, namespaceableContract);
 	}
 }
@@ -96,6 +176,229 @@ function inferUpgradeable(cursor: cursor.Cursor, contractDef: ContractDefinition
 	return false;
 }
 
+/**
+ * Gets the reference contract from the NatSpec annotation `@custom:oz-upgrades-from <reference>`, if any.
+ */
+function getUpgradesFromReference(cursor: cursor.Cursor): { reference: string, textRange: text_index.TextRange } | undefined {
+	const natSpec = getNatSpec(cursor);
+	const match = natSpec?.text.match(/@custom:oz-upgrades-from\s+([^\s*]+)/);
+	if (natSpec !== undefined && match && match[1] !== undefined) {
+		return { reference: match[1], textRange: natSpec.textRange };
+	}
+	return undefined;
+}
+
+/**
+ * Generates diagnostics for upgrade-unsafe storage layout changes compared to the reference contract from `@custom:oz-upgrades-from <reference>`:
+ * - Deleted, reordered, retyped or renamed state variables
+ * - Deleted namespaces, and deleted, reordered, retyped, renamed or inserted fields in namespaced structs
+ */
+async function validateStorageLayoutAgainstReference(cursor: cursor.Cursor, indexedFile: IndexedFile, language: Language, textDocument: TextDocument, context: AnalysisContext, contractDef: ContractDefinition, diagnostics: Diagnostic[]) {
+	const upgradesFrom = getUpgradesFromReference(cursor);
+	if (upgradesFrom === undefined) {
+		return;
+	}
+	const upgradesFromRange = slangToVSCodeRange(textDocument, upgradesFrom.textRange);
+
+	const referenceContract = await findReferenceContract(upgradesFrom.reference, indexedFile, language, context.workspaceFolders);
+	if (referenceContract === undefined) {
+		addDiagnostic(
+			diagnostics,
+			textDocument,
+			upgradesFromRange,
+			`Reference contract not found`,
+			`Could not find reference contract \`${upgradesFrom.reference}\` in the workspace`,
+			DiagnosticSeverity.Warning,
+			UPGRADES_FROM_REFERENCE_NOT_FOUND,
+			undefined
+		);
+		return;
+	}
+
+	const contract = indexedFile.contracts.find(contract => contract.name === contractDef.name.text);
+	const referenceLayout = await getInheritedStorageLayout(referenceContract, language, context);
+	// inherited items are reported on the annotation, since they are not declared in this contract
+	const layout = contract !== undefined ? await getInheritedStorageLayout({ file: indexedFile, contract }, language, context, upgradesFromRange) : undefined;
+	if (referenceLayout === undefined || layout === undefined) {
+		// the inheritance of the contract or its reference could not be resolved
+		return;
+	}
+
+	for (const change of compareStorageLayouts(referenceLayout, layout)) {
+		const isRename = change.kind === 'renamed';
+		addDiagnostic(
+			diagnostics,
+			textDocument,
+			change.range ?? upgradesFromRange,
+			isRename ? `Storage variable renamed` : `Storage layout is incompatible with \`${upgradesFrom.reference}\``,
+			change.message,
+			isRename ? DiagnosticSeverity.Warning : DiagnosticSeverity.Error,
+			isRename ? STORAGE_VARIABLE_RENAMED : STORAGE_LAYOUT_INCOMPATIBLE,
+			{ kind: change.kind, name: change.name, namespaceId: change.namespaceId }
+		);
+	}
+}
+
+/**
+ * Gets the storage layout of a contract together with the layouts of its bases, in the order of the linearization.
+ *
+ * @param inheritedRange if set, the range of the items declared by the bases
+ */
+async function getInheritedStorageLayout({ file, contract }: AncestorContract, language: Language, context: AnalysisContext, inheritedRange?: Range): Promise<StorageLayout | undefined> {
+	const linearization = await getLinearizedContracts(file, contract, language, context.workspaceFolders);
+	return linearization !== undefined ? combineStorageLayouts(linearization.map(linearized => linearized.contract), inheritedRange) : undefined;
+}
+
+/**
+ * Generates a diagnostic if any of the following occur across the contract's inheritance tree, including parents in other files:
+ * - A namespace in the contract has the same id as a namespace in one of its ancestors
+ * - Multiple ancestors define namespaces with the same id
+ * - An upgradeable contract uses namespaced storage, but its ancestors declare state variables in regular storage
+ */
+async function validateInheritanceTree(cursor: cursor.Cursor, indexedFile: IndexedFile, language: Language, textDocument: TextDocument, context: AnalysisContext, contractDef: ContractDefinition, inferredUpgradeable: boolean, diagnostics: Diagnostic[]) {
+	const contract = indexedFile.contracts.find(contract => contract.name === contractDef.name.text);
+	if (contract === undefined || contract.bases.length === 0) {
+		return;
+	}
+
+	const ancestors = await getAncestorContracts(indexedFile, contract, language, context.workspaceFolders);
+	const inheritedNamespaces = getInheritedNamespaces(ancestors);
+
+	for (const namespace of contract.namespaces) {
+		const duplicate = inheritedNamespaces.find(inherited => inherited.namespaceId === namespace.namespaceId);
+		if (duplicate !== undefined) {
+			addDiagnostic(
+				diagnostics,
+				textDocument,
+				namespace.range,
+				`Duplicate namespaces`,
+				`Namespace id \`${namespace.namespaceId}\` is also used by inherited contract \`${duplicate.contractName}\``,
+				DiagnosticSeverity.Error,
+				DUPLICATE_NAMESPACE_ID,
+				undefined,
+				[{ location: { uri: duplicate.uri, range: duplicate.range }, message: `Namespace \`${duplicate.namespaceId}\` defined in \`${duplicate.contractName}\`` }]
+			);
+		}
+	}
+
+	const reportedIds: string[] = [];
+	for (const inherited of inheritedNamespaces) {
+		const duplicates = inheritedNamespaces.filter(other => other.namespaceId === inherited.namespaceId && other.contractName !== inherited.contractName);
+		if (duplicates.length > 0 && !reportedIds.includes(inherited.namespaceId) && !contract.namespaces.some(namespace => namespace.namespaceId === inherited.namespaceId)) {
+			reportedIds.push(inherited.namespaceId);
+
+			const contractNameCursor = cursor.spawn();
+			contractNameCursor.goToNextTerminalWithKind(TerminalKind.Identifier);
+
+			addDiagnostic(
+				diagnostics,
+				textDocument,
+				slangToVSCodeRange(textDocument, contractNameCursor.textRange),
+				`Duplicate namespaces in inherited contracts`,
+				`Namespace id \`${inherited.namespaceId}\` is used by multiple inherited contracts: ${[inherited, ...duplicates].map(namespace => `\`${namespace.contractName}\``).join(', ')}`,
+				DiagnosticSeverity.Error,
+				DUPLICATE_NAMESPACE_ID,
+				undefined,
+				[inherited, ...duplicates].map(namespace => ({ location: { uri: namespace.uri, range: namespace.range }, message: `Namespace \`${namespace.namespaceId}\` defined in \`${namespace.contractName}\`` }))
+			);
+		}
+	}
+
+	const ancestorsWithVariables = ancestors.filter(ancestor => ancestor.contract.variables.length > 0);
+	if (inferredUpgradeable && contract.namespaces.length > 0 && ancestorsWithVariables.length > 0) {
+		addDiagnostic(
+			diagnostics,
+			textDocument,
+			contract.range,
+			`Inherited variables in regular storage`,
+			`Contract \`${contract.name}\` uses namespaced storage, but inherits state variables in regular storage from ${ancestorsWithVariables.map(ancestor => `\`${ancestor.contract.name}\``).join(', ')}. Changing the inheritance or the variables of these contracts shifts the storage layout of \`${contract.name}\`.`,
+			DiagnosticSeverity.Warning,
+			INHERITED_STORAGE_VARIABLES,
+			{ contracts: ancestorsWithVariables.map(ancestor => ancestor.contract.name) },
+			ancestorsWithVariables.map(ancestor => ({ location: { uri: ancestor.file.uri, range: ancestor.contract.range }, message: `State variables of \`${ancestor.contract.name}\`: ${ancestor.contract.variables.map(variable => `\`${variable.name}\``).join(', ')}` }))
+		);
+	}
+}
+
+/**
+ * Returns true if the statement only disables initializers, which is the only thing an upgradeable contract's constructor should do.
+ */
+export function isDisableInitializersStatement(statement: Statement) {
+	return statement.cst.unparse().trim().replace(/\s+/g, '') === "_disableInitializers();";
+}
+
+/**
+ * Gets the names of the contract's immutable state variables.
+ */
+export function getImmutableVariableNames(contractDef: ContractDefinition): string[] {
+	return contractDef.members.items
+		.map(member => member.variant)
+		.filter((member): member is StateVariableDefinition => member instanceof StateVariableDefinition)
+		.filter(variable => variable.attributes.items.some(attribute => attribute.variant instanceof TerminalNode && attribute.variant.kind === TerminalKind.ImmutableKeyword))
+		.map(variable => variable.name.text);
+}
+
+/**
+ * Returns true if the statement assigns one of the given immutable variables, which can only be done in the constructor.
+ */
+export function isImmutableAssignmentStatement(statement: Statement, immutableNames: string[]) {
+	const expressionStatement = statement.variant;
+	if (!(expressionStatement instanceof ExpressionStatement)) {
+		return false;
+	}
+	const expression = expressionStatement.expression.variant;
+	return expression instanceof AssignmentExpression && expression.leftOperand.variant instanceof TerminalNode && immutableNames.includes(expression.leftOperand.variant.text);
+}
+
+/**
+ * Returns true if the constructor has any side effects other than disabling initializers or assigning immutable variables, including invoking modifiers or base constructors.
+ */
+export function hasConstructorSideEffects(constructorDef: ConstructorDefinition, immutableNames: string[]) {
+	const hasModifierInvocations = constructorDef.attributes.items.some(attribute => attribute.variant instanceof ModifierInvocation);
+	const hasStatements = constructorDef.body.statements.items.some(statement => !isDisableInitializersStatement(statement) && !isImmutableAssignmentStatement(statement, immutableNames));
+	return hasModifierInvocations || hasStatements;
+}
+
+/**
+ * Returns true if the NatSpec at the cursor allows the given unsafe pattern with `@custom:oz-upgrades-unsafe-allow <patterns>`.
+ */
+function isUnsafeAllowed(cursor: cursor.Cursor, pattern: string) {
+	const matches = getNatSpec(cursor)?.text.matchAll(/@custom:oz-upgrades-unsafe-allow([^\n@]*)/g) ?? [];
+	return [...matches].some(match => match[1].split(/[\s*/]+/).includes(pattern));
+}
+
+/**
+ * Generates a diagnostic if an upgradeable contract has a constructor with side effects, since the constructor does not run in the context of a proxy.
+ * Constructors allowed with `@custom:oz-upgrades-unsafe-allow constructor` on the constructor or the contract are skipped.
+ */
+function validateConstructor(cursor: cursor.Cursor, textDocument: TextDocument, contractDef: ContractDefinition, diagnostics: Diagnostic[]) {
+	const constructorCursor = cursor.spawn();
+	if (!constructorCursor.goToNextNonterminalWithKind(NonterminalKind.ConstructorDefinition)) {
+		return;
+	}
+
+	const constructorDefNode = constructorCursor.node();
+	assert(constructorDefNode instanceof NonterminalNode);
+	const constructorDef = new ConstructorDefinition(constructorDefNode);
+
+	if (isUnsafeAllowed(constructorCursor, "constructor") || isUnsafeAllowed(cursor, "constructor")) {
+		return;
+	}
+
+	if (hasConstructorSideEffects(constructorDef, getImmutableVariableNames(contractDef))) {
+		addDiagnostic(
+			diagnostics,
+			textDocument,
+			slangToVSCodeRange(textDocument, getTrimmedRange(constructorCursor)),
+			`Constructor in upgradeable contract`,
+			"Upgradeable contracts should use an initializer instead of a constructor, since constructors are not run in the context of the proxy.",
+			DiagnosticSeverity.Warning,
+			CONSTRUCTOR_IN_UPGRADEABLE_CONTRACT,
+			{ contractName: contractDef.name.text }
+		);
+	}
+}
+
 function validateNamespaceableContract(cursor: cursor.Cursor, diagnostics: Diagnostic[], textDocument: TextDocument, namespaceableContract: NamespaceableContract) {
 	if (namespaceableContract.variables.length > 0) {
 		const contractChildCursor = cursor.spawn();
@@ -117,7 +420,42 @@ function validateNamespaceableContract(cursor: cursor.Cursor, diagnostics: Diagn
 	}
 }
 
-async function validateNamespaceableVariables(cursor: cursor.Cursor, textDocument: TextDocument, diagnostics: Diagnostic[], namespaceableContract: NamespaceableContract, skipDiagnostic: boolean) {
+/**
+ * Gets the signature of the getter that Solidity generates for a public state variable, which has a parameter for each mapping key and array index.
+ */
+function getPublicGetter(typeName: TypeName): PublicGetter {
+	const parameterTypes: string[] = [];
+	let valueType = typeName;
+	while (valueType.variant instanceof MappingType || valueType.variant instanceof ArrayTypeName) {
+		if (valueType.variant instanceof MappingType) {
+			parameterTypes.push(withMemoryLocation(unparseWithoutComments(valueType.variant.keyType.keyType.cst)));
+			valueType = valueType.variant.valueType.typeName;
+		} else {
+			parameterTypes.push('uint256');
+			valueType = valueType.variant.operand;
+		}
+	}
+	return { parameterTypes, returnType: withMemoryLocation(unparseWithoutComments(valueType.cst)) };
+}
+
+/**
+ * Gets the text of a node without the comments in its trivia, e.g. the comments above a state variable that precede its type name.
+ */
+function unparseWithoutComments(node: NonterminalNode) {
+	return node.unparse().replace(/\/\/.*$|\/\*[\s\S]*?\*\//gm, '').trim();
+}
+
+/**
+ * Adds the `memory` data location to dynamically-sized byte types, which need it as parameter and return types.
+ */
+function withMemoryLocation(typeName: string) {
+	return typeName === 'string' || typeName === 'bytes' ? `${typeName} memory` : typeName;
+}
+
+function validateNamespaceableVariables(cursor: cursor.Cursor, language: Language, typeDefinitions: TypeDefinitions, textDocument: TextDocument, diagnostics: Diagnostic[], namespaceableContract: NamespaceableContract, skipDiagnostic: boolean) {
+	// the storage sizes of the variables so far, to check the size of storage gaps
+	const storageSizes: (StorageSize | undefined)[] = [];
+
 	const childCursor = cursor.spawn();
 	while (childCursor.goToNextNonterminalWithKind(NonterminalKind.StateVariableDefinition)) {
 		const cursorNode = childCursor.node();
@@ -128,7 +466,6 @@ async function validateNamespaceableVariables(cursor: cursor.Cursor, textDocumen
 
 		// ignore immutable or constant variables
 		let ignoreVariable = false;
-		const language = new Language(await inferSolidityVersion(textDocument, workspaceFolders));
 		const parseVar = language.parse(NonterminalKind.StateVariableDefinition, variableText);
 		const stateVar = new StateVariableDefinition(parseVar.tree() as NonterminalNode);
 		const attributes = stateVar.attributes.items;
@@ -142,20 +479,37 @@ async function validateNamespaceableVariables(cursor: cursor.Cursor, textDocumen
 			} else {
 				// If there is any attribute at all, recreate the variable without any attributes
 				replacement = `${stateVar.typeName.cst.unparse()} ${stateVar.name.text};`;
-				console.log("Replacing variable with: " + replacement);
 
 				// If a variable was originally public, make the quick fix add a public getter with the same signature to allow getting that variable from the namespace
 				if (attribute.variant instanceof TerminalNode && attribute.variant.kind === TerminalKind.PublicKeyword) {
-					getter = {
-						typeName: stateVar.typeName.cst.unparse(),
-					}
+					getter = getPublicGetter(stateVar.typeName);
 				}
 			}
 		}
 
+		const storageGapSize = getStorageGapSize(stateVar);
 		if (ignoreVariable) {
-			console.log('Ignoring immutable or constant variable: ' + variableText);
+			continue;
+		} else if (storageGapSize !== undefined) {
+			const storageGap: StorageGap = {
+				size: storageGapSize,
+				range: slangToVSCodeRange(textDocument, trimmedRange),
+				removalRange: getLineRemovalRange(textDocument, slangToVSCodeRange(textDocument, { start: getStartIncludingLeadingComments(childCursor), end: trimmedRange.end })),
+			};
+			if (!skipDiagnostic) {
+				validateStorageGap(storageGap, storageSizes, textDocument, diagnostics, namespaceableContract);
+			}
+			namespaceableContract.storageGaps.push(storageGap);
 		} else if (stateVar.value !== undefined) {
+			// The variable is declared without its initial value in the namespace, and the initial value is assigned in an initializer instead
+			const variable: Variable = {
+				content: `${stateVar.typeName.cst.unparse()} ${stateVar.name.text};`,
+				name: stateVar.name.text,
+				range: slangToVSCodeRange(textDocument, trimmedRange),
+				publicGetter: getter,
+				initialValue: stateVar.value.value.cst.unparse().trim(),
+			};
+
 			if (!skipDiagnostic) {
 				addDiagnostic(
 					diagnostics,
@@ -165,10 +519,14 @@ async function validateNamespaceableVariables(cursor: cursor.Cursor, textDocumen
 					"If this contract is an upgradeable contract, consider moving this variable to namespaced storage and setting it in an initializer.",
 					DiagnosticSeverity.Warning,
 					VARIABLE_HAS_INITIAL_VALUE,
-					undefined
+					{ contractName: namespaceableContract.name, variableName: stateVar.name.text, variable }
 				);
 			}
+
+			namespaceableContract.variables.push(variable);
 		} else {
+			const variable: Variable = { content: replacement, name: stateVar.name.text, range: slangToVSCodeRange(textDocument, trimmedRange), publicGetter: getter };
+
 			if (!skipDiagnostic) {
 				addDiagnostic(
 					diagnostics,
@@ -178,16 +536,76 @@ async function validateNamespaceableVariables(cursor: cursor.Cursor, textDocumen
 					"If this contract is an upgradeable contract, consider moving this variable to namespaced storage.",
 					DiagnosticSeverity.Information,
 					VARIABLE_CAN_BE_NAMESPACED,
-					undefined
+					{ contractName: namespaceableContract.name, variableName: stateVar.name.text, variable }
 				);	
 			}
 
-			namespaceableContract.variables.push({ content: replacement, name: stateVar.name.text, range: slangToVSCodeRange(textDocument, trimmedRange), publicGetter: getter });
+			namespaceableContract.variables.push(variable);
+		}
+
+		storageSizes.push(getStorageSize(stateVar.typeName, typeDefinitions));
+	}
+
+	// while variables are left in regular storage, the gaps still reserve slots for them and are removed by moving all variables to the namespace
+	if (!skipDiagnostic && namespaceableContract.variables.length === 0) {
+		for (const storageGap of namespaceableContract.storageGaps) {
+			addDiagnostic(
+				diagnostics,
+				textDocument,
+				storageGap.range,
+				`Storage gap can be removed when using namespaced storage`,
+				"Namespaced storage does not need a gap, since future versions can add variables to the end of the namespace struct. Removing the gap changes the storage layout of contracts that inherit from this contract.",
+				DiagnosticSeverity.Information,
+				STORAGE_GAP_CAN_BE_REMOVED,
+				{ contractName: namespaceableContract.name, storageGap }
+			);
 		}
 	}
 }
 
-async function validateNamespaceCommentAndHash(expectedNamespaceId: string, cursor: cursor.Cursor, textDocument: TextDocument, contractDef: ContractDefinition, diagnostics: Diagnostic[]) {
+/**
+ * Generates a diagnostic if the size of the storage gap does not add up to the conventional total number of slots with the variables before it.
+ *
+ * @param precedingSizes the storage sizes of the variables before the gap, or undefined for those whose size is unknown
+ */
+function validateStorageGap(storageGap: StorageGap, precedingSizes: (StorageSize | undefined)[], textDocument: TextDocument, diagnostics: Diagnostic[], namespaceableContract: NamespaceableContract) {
+	if (precedingSizes.some(size => size === undefined)) {
+		// the slots used by the variables before the gap cannot be determined
+		return;
+	}
+
+	const usedSlots = countStorageSlots(precedingSizes as StorageSize[]);
+	const expectedSize = STORAGE_GAP_TOTAL_SLOTS - usedSlots;
+	if (storageGap.size !== expectedSize) {
+		addDiagnostic(
+			diagnostics,
+			textDocument,
+			storageGap.range,
+			`Storage gap size does not match the variables before it`,
+			`The variables before the gap use ${usedSlots} slot${usedSlots === 1 ? '' : 's'}, so the gap should have ${expectedSize} slots for the contract to use ${STORAGE_GAP_TOTAL_SLOTS} slots in total.`,
+			DiagnosticSeverity.Warning,
+			STORAGE_GAP_SIZE_MISMATCH,
+			{ contractName: namespaceableContract.name, size: storageGap.size, expectedSize }
+		);
+	}
+}
+
+/**
+ * Extends a range to whole lines if nothing but whitespace or a trailing comment is on those lines, so that deleting it leaves no empty line.
+ */
+function getLineRemovalRange(textDocument: TextDocument, range: Range): Range {
+	const before = textDocument.getText({ start: { line: range.start.line, character: 0 }, end: range.start });
+	const after = textDocument.getText({ start: range.end, end: { line: range.end.line + 1, character: 0 } });
+	if (before.trim().length > 0 || !/^\s*(\/\/.*)?\r?\n?$/.test(after)) {
+		return range;
+	}
+	return {
+		start: { line: range.start.line, character: 0 },
+		end: { line: range.end.line + 1, character: 0 },
+	};
+}
+
+export async function validateNamespaceCommentAndHash(expectedNamespaceId: string, cursor: cursor.Cursor, textDocument: TextDocument, contractDef: ContractDefinition, diagnostics: Diagnostic[]) {
 	const spawnedCursor = cursor.spawn();
 	while (spawnedCursor.goToNextNonterminalWithKind(NonterminalKind.StateVariableDefinition)) {
 		const comment = getLastPrecedingTriviaWithKinds(spawnedCursor, [TerminalKind.SingleLineComment, TerminalKind.MultiLineComment]);
@@ -196,13 +614,12 @@ async function validateNamespaceCommentAndHash(expectedNamespaceId: string, curs
 
 		if (comment !== undefined) {
 			// check if comment looks like a representation of the namespace hash calculation, and capture its namespace id
-			const regex = /keccak256\(abi\.encode\(uint256\(keccak256\("(.*)"\)\) *- *1\)\) *& *~bytes32\(uint256\(0xff\)\)/;
-			const match = comment.text.match(regex);
+			const commentNamespace = getHashCommentNamespace(comment);
+			const commentNamespaceId = commentNamespace?.namespaceId;
 
-			if (match) {
+			if (commentNamespaceId !== undefined) {
 				// namespace id in comment does not match expected namespace id
-				assert(match[1] !== undefined);
-				if (match[1] !== expectedNamespaceId) {
+				if (commentNamespaceId !== expectedNamespaceId) {
 					commentHasUnexpectedNamespace = true;
 
 					addDiagnostic(
@@ -213,18 +630,19 @@ async function validateNamespaceCommentAndHash(expectedNamespaceId: string, curs
 						`Expected namespace id \`${expectedNamespaceId}\``,
 						DiagnosticSeverity.Warning,
 						NAMESPACE_ID_MISMATCH_HASH_COMMENT,
-						{ replacement: `// keccak256(abi.encode(uint256(keccak256("${expectedNamespaceId}")) - 1)) & ~bytes32(uint256(0xff))` } // TODO use comment or multiline commend depending on original kind. keep any other comment text that was there
+						// only replace the quoted id, to keep the kind of comment and any other text in it
+						{ replacement: expectedNamespaceId, replacementRange: slangToVSCodeRange(textDocument, commentNamespace!.textRange) }
 					);
 				}
 
-				expectedHashFromComment = calculateERC7201StorageLocation(match[1]);
+				expectedHashFromComment = calculateERC7201StorageLocation(commentNamespaceId);
 			}
 		}
 
 		const stateVarDefNode = spawnedCursor.node();
 		assert(stateVarDefNode instanceof NonterminalNode);
 		const stateVariableDefinition = new StateVariableDefinition(stateVarDefNode);
-		if (stateVariableDefinition.name.text.match(/_STORAGE_LOCATION$/) || stateVariableDefinition.name.text.match(/StorageLocation$/)) {
+		if (isStorageLocationConstantName(stateVariableDefinition.name.text)) {
 			spawnedCursor.goToNextNonterminalWithKind(NonterminalKind.StateVariableDefinitionValue);
 			spawnedCursor.goToNextNonterminalWithKind(NonterminalKind.Expression);
 			const constantNode = spawnedCursor.node();
@@ -264,7 +682,82 @@ async function validateNamespaceCommentAndHash(expectedNamespaceId: string, curs
 
 }
 
-interface NamespaceIdAndRange {
+const HASH_COMMENT_REGEX = /(keccak256\(abi\.encode\(uint256\(keccak256\(")(.*)"\)\) *- *1\)\) *& *~bytes32\(uint256\(0xff\)\)/;
+
+/**
+ * Gets the namespace id from a comment that looks like a representation of the namespace hash calculation, if any.
+ */
+export function getHashCommentNamespaceId(commentText: string): string | undefined {
+	const match = commentText.match(HASH_COMMENT_REGEX);
+	return match?.[2];
+}
+
+/**
+ * Gets the namespace id and its range from a comment that looks like a representation of the namespace hash calculation, if any.
+ * The range only includes the id within the quotes.
+ */
+export function getHashCommentNamespace(comment: TriviaTextWithRange): NamespaceIdAndRange | undefined {
+	const match = comment.text.match(HASH_COMMENT_REGEX);
+	if (match === null || match.index === undefined) {
+		return undefined;
+	}
+	return {
+		namespaceId: match[2],
+		textRange: getSubstringRange(comment, match.index + match[1].length, match[2].length),
+	};
+}
+
+/**
+ * Gets the namespace id from a `@custom:storage-location erc7201:<id>` annotation in a NatSpec comment, if any.
+ */
+export function getStorageLocationAnnotationId(natSpec: TriviaTextWithRange): string | undefined {
+	return getStorageLocationAnnotation(natSpec)?.namespaceId;
+}
+
+/**
+ * Gets the namespace id and its range from a `@custom:storage-location erc7201:<id>` annotation in a NatSpec comment, if any.
+ * The range only includes the id after `erc7201:`.
+ */
+export function getStorageLocationAnnotation(natSpec: TriviaTextWithRange): NamespaceIdAndRange | undefined {
+	let regex: RegExp;
+	assert(natSpec.kind === TerminalKind.SingleLineNatSpecComment || natSpec.kind === TerminalKind.MultiLineNatSpecComment);
+
+	if (natSpec.kind === TerminalKind.SingleLineNatSpecComment) {
+		regex = /@custom:storage-location erc7201:(\S+)/;
+	} else {
+		regex = /@custom:storage-location erc7201:(\S+)(?=\s|\*\/)/;
+	}
+
+	const match = natSpec.text.match(regex);
+	if (match === null || match.index === undefined) {
+		return undefined;
+	}
+	// the id is at the end of the match
+	return {
+		namespaceId: match[1],
+		textRange: getSubstringRange(natSpec, match.index + match[0].length - match[1].length, match[1].length),
+	};
+}
+
+/**
+ * Gets the text range of a substring of a comment, given its offset and length in the comment's text.
+ */
+function getSubstringRange(comment: TriviaTextWithRange, offset: number, length: number): text_index.TextRange {
+	const start = advanceTextIndex(comment.textRange.start, comment.text.substring(0, offset));
+	return {
+		start,
+		end: advanceTextIndex(start, comment.text.substring(offset, offset + length)),
+	};
+}
+
+/**
+ * Returns true if the state variable's name looks like an ERC7201 storage location constant.
+ */
+export function isStorageLocationConstantName(name: string) {
+	return name.match(/(^|_)STORAGE_LOCATION$/) !== null || name.match(/StorageLocation$/) !== null;
+}
+
+export interface NamespaceIdAndRange {
 	namespaceId: string;
 	textRange: text_index.TextRange;
 }
@@ -277,7 +770,7 @@ interface NamespaceIdAndRange {
  * 
  * @returns The namespace used in the struct annotation, if exactly one was found. Otherwise, undefined.
  */
-async function validateNamespaceStructAnnotation(cursor: cursor.Cursor, textDocument: TextDocument, contractDef: ContractDefinition, diagnostics: Diagnostic[]): Promise<NamespaceIdAndRange | undefined> {
+export async function validateNamespaceStructAnnotation(cursor: cursor.Cursor, textDocument: TextDocument, context: AnalysisContext, contractDef: ContractDefinition, diagnostics: Diagnostic[]): Promise<NamespaceIdAndRange | undefined> {
 	const foundNamespaceIds: NamespaceIdAndRange[] = [];
 
 	const structCursor = cursor.spawn();
@@ -287,26 +780,17 @@ async function validateNamespaceStructAnnotation(cursor: cursor.Cursor, textDocu
 
 		const natSpec = getNatSpec(structCursor);
 		if (natSpec !== undefined) {
-			let regex: RegExp;
-			assert(natSpec.kind === TerminalKind.SingleLineNatSpecComment || natSpec.kind === TerminalKind.MultiLineNatSpecComment);
-
-			if (natSpec.kind === TerminalKind.SingleLineNatSpecComment) {
-				regex = /@custom:storage-location erc7201:(\S+)/;
-			} else {
-				regex = /@custom:storage-location erc7201:(\S+)(?=\s|\*\/)/;
-			}
-
-			const match = natSpec.text.match(regex);
-			if (match && match[1] !== undefined) {
-				console.log("Found erc7201 storage location annotation with id: " + match[1]);
+			const annotation = getStorageLocationAnnotation(natSpec);
+			if (annotation !== undefined) {
+				const namespaceId = annotation.namespaceId;
 				foundNamespaceIds.push({
-					namespaceId: match[1],
+					namespaceId,
 					textRange: natSpec.textRange,
 				});
 
-				let namespacePrefix = await getNamespacePrefix(textDocument);
+				const { namespacePrefix } = await getParsedDocument(textDocument, context);
 				const expectedNamespaceId = getExpectedNamespaceId(namespacePrefix, contractDef);
-				if (match[1] !== expectedNamespaceId) {
+				if (namespaceId !== expectedNamespaceId) {
 					addDiagnostic(
 						diagnostics,
 						textDocument,
@@ -315,7 +799,8 @@ async function validateNamespaceStructAnnotation(cursor: cursor.Cursor, textDocu
 						`Namepace id does not match prefix \`${namespacePrefix}\` and contract name \`${contractDef.name.text}\``,
 						DiagnosticSeverity.Information,
 						NAMESPACE_ID_MISMATCH,
-						{ replacement: `/// @custom:storage-location erc7201:${expectedNamespaceId}` } // TODO use the same kind of NatSpec (single line or multiline) as the original, and keep any other text that was there
+						// only replace the id, to keep the kind of NatSpec and any other tags in it
+						{ replacement: expectedNamespaceId, replacementRange: slangToVSCodeRange(textDocument, annotation.textRange) }
 					);
 				}
 			}
@@ -357,3 +842,112 @@ async function validateNamespaceStructAnnotation(cursor: cursor.Cursor, textDocu
 
 	return foundNamespaceIds.length === 1 ? foundNamespaceIds[0] : undefined;
 }
+
+/**
+ * Checks the fields of each namespace struct in the contract:
+ * - Fields that are structs or fixed-size arrays of structs, defined in the file or imported, since those structs cannot get new fields without shifting the fields after them
+ * - Fields that are named like constants or immutable variables, which do not belong in storage
+ *
+ * Also adds a hint to each namespace struct that new fields must only be appended.
+ */
+async function validateNamespaceHealth(cursor: cursor.Cursor, indexedFile: IndexedFile, language: Language, typeDefinitions: TypeDefinitions, textDocument: TextDocument, context: AnalysisContext, diagnostics: Diagnostic[]) {
+	// resolved on the first namespace struct, since most contracts do not have one
+	let importedStructs: Set<string> | undefined;
+
+	const structCursor = cursor.spawn();
+	while (structCursor.goToNextNonterminalWithKind(NonterminalKind.StructDefinition)) {
+		const natSpec = getNatSpec(structCursor);
+		if (natSpec === undefined || getStorageLocationAnnotation(natSpec) === undefined) {
+			continue;
+		}
+		if (importedStructs === undefined) {
+			importedStructs = await getImportedStructs(indexedFile, language, context.workspaceFolders);
+		}
+
+		const memberCursor = structCursor.spawn();
+		while (memberCursor.goToNextNonterminalWithKind(NonterminalKind.StructMember)) {
+			const memberNode = memberCursor.node();
+			assert(memberNode instanceof NonterminalNode);
+			const member = new StructMember(memberNode);
+			const memberRange = slangToVSCodeRange(textDocument, getTrimmedRange(memberCursor));
+			const fieldName = member.name.text;
+
+			for (const issue of getNamespaceFieldIssues(member, typeDefinitions, importedStructs)) {
+				switch (issue.kind) {
+					case 'nestedStruct':
+						addDiagnostic(
+							diagnostics,
+							textDocument,
+							memberRange,
+							`Nested struct cannot grow`,
+							`Adding fields to \`${issue.structName}\` in a future version would shift the fields after \`${fieldName}\`. Consider storing it in a mapping, or never adding fields to \`${issue.structName}\``,
+							DiagnosticSeverity.Warning,
+							NAMESPACE_FIELD_NESTED_STRUCT,
+							{ fieldName, structName: issue.structName }
+						);
+						break;
+					case 'structArray':
+						addDiagnostic(
+							diagnostics,
+							textDocument,
+							memberRange,
+							`Fixed-size array of structs cannot grow`,
+							`Adding fields to \`${issue.structName}\` in a future version would shift the elements of \`${fieldName}\` and the fields after it. Consider using a mapping instead`,
+							DiagnosticSeverity.Warning,
+							NAMESPACE_FIELD_STRUCT_ARRAY,
+							{ fieldName, structName: issue.structName }
+						);
+						break;
+					case 'constantLookalike':
+						addDiagnostic(
+							diagnostics,
+							textDocument,
+							memberRange,
+							`Field looks like a constant`,
+							`\`${fieldName}\` is named like a constant, but fields of a namespace are stored and can change. If it is a constant or immutable value, declare it in the contract instead`,
+							DiagnosticSeverity.Warning,
+							NAMESPACE_FIELD_CONSTANT_LOOKALIKE,
+							{ fieldName }
+						);
+						break;
+				}
+			}
+		}
+
+		const nameCursor = structCursor.spawn();
+		nameCursor.goToNextTerminalWithKind(TerminalKind.Identifier);
+
+		addDiagnostic(
+			diagnostics,
+			textDocument,
+			slangToVSCodeRange(textDocument, nameCursor.textRange),
+			`Only append new fields to the namespace`,
+			`Fields of a namespace are stored in order from its storage location. In future versions, add new fields after the existing ones, and do not remove, reorder or change the types of existing fields`,
+			DiagnosticSeverity.Hint,
+			NAMESPACE_FIELDS_APPEND_ONLY,
+			undefined
+		);
+	}
+}
+
+export function addDiagnostic(diagnostics: Diagnostic[], textDocument: TextDocument, range: Range, message: string, details: string, severity: DiagnosticSeverity, code: string, data: LSPAny, relatedInformation: DiagnosticRelatedInformation[] = []) {
+	const diagnostic: Diagnostic = {
+		severity: severity,
+		range: range,
+		message: message,
+		source: "OpenZeppelin Language Server",
+		code: code,
+		data: data,
+		relatedInformation: [
+			{
+				location: {
+					uri: textDocument.uri,
+					range: Object.assign({}, range)
+				},
+				message: details
+			},
+			...relatedInformation
+		],
+	};
+	diagnostics.push(diagnostic);
+}
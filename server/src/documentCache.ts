@@ -0,0 +1,67 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { NonterminalKind } from '@nomicfoundation/slang/kinds';
+import { Language } from '@nomicfoundation/slang/language';
+import { parse_output } from '@nomicfoundation/slang';
+import { AnalysisContext } from './context';
+import { getNamespacePrefix } from './settings';
+import { resolveSolidityVersion, SolidityVersionResolution } from './solidityVersion';
+
+/**
+ * A document parsed with its resolved Solidity version and settings.
+ */
+export type ParsedDocument = {
+	solidityVersion: SolidityVersionResolution;
+	language: Language;
+	parseOutput: parse_output.ParseOutput;
+	namespacePrefix: string;
+}
+
+type CacheEntry = {
+	version: number;
+	text: string;
+	parsedDocument: Promise<ParsedDocument>;
+}
+
+/**
+ * Parsed documents keyed by URI. Only the most recently parsed version of each document is kept.
+ *
+ * The entries depend on the settings and on project config files, so the cache must be cleared when either changes.
+ */
+export type DocumentCache = Map<string, CacheEntry>;
+
+export function createDocumentCache(): DocumentCache {
+	return new Map();
+}
+
+/**
+ * Gets the parse output and resolved settings of a document, from the cache of the context if the same version of the document was parsed before.
+ */
+export function getParsedDocument(textDocument: TextDocument, context: AnalysisContext): Promise<ParsedDocument> {
+	const text = textDocument.getText();
+
+	// documents that are not open in an editor always have the same version, so the text is compared as well
+	const entry = context.documentCache.get(textDocument.uri);
+	if (entry !== undefined && entry.version === textDocument.version && entry.text === text) {
+		return entry.parsedDocument;
+	}
+
+	const parsedDocument = parseDocument(textDocument, context);
+	context.documentCache.set(textDocument.uri, { version: textDocument.version, text, parsedDocument });
+	parsedDocument.catch(() => {
+		if (context.documentCache.get(textDocument.uri)?.parsedDocument === parsedDocument) {
+			context.documentCache.delete(textDocument.uri);
+		}
+	});
+	return parsedDocument;
+}
+
+async function parseDocument(textDocument: TextDocument, context: AnalysisContext): Promise<ParsedDocument> {
+	const solidityVersion = await resolveSolidityVersion(textDocument, context);
+	const language = new Language(solidityVersion.version);
+	return {
+		solidityVersion,
+		language,
+		parseOutput: language.parse(NonterminalKind.SourceUnit, textDocument.getText()),
+		namespacePrefix: await getNamespacePrefix(textDocument, context),
+	};
+}
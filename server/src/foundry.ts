@@ -0,0 +1,149 @@
+import { parse } from 'smol-toml';
+import { parseRemapping, readRemappingsFile, Remapping } from './remappings';
+
+import path from 'path';
+import { promises as fs } from 'fs';
+
+export const FOUNDRY_CONFIG_FILE = 'foundry.toml';
+
+const DEFAULT_PROFILE = 'default';
+
+/**
+ * The configuration of a Foundry project, resolved for the active profile.
+ */
+export type FoundryProject = {
+	/**
+	 * The folder that contains `foundry.toml`.
+	 */
+	root: string;
+	/**
+	 * The active profile, from the `FOUNDRY_PROFILE` environment variable.
+	 */
+	profile: string;
+	/**
+	 * The Solidity version from `solc_version` or `solc`, if it is set to a version rather than a path to a compiler binary.
+	 * `auto_detect_solc` is not read: if no version is set, Foundry either detects it from pragmas or uses a compiler binary whose version is not in the config.
+	 */
+	solcVersion?: string;
+	/**
+	 * The source directory, relative to the root. Imports of a library such as `forge-std/Test.sol` resolve to its source directory.
+	 */
+	src: string;
+	/**
+	 * The library directories, relative to the root.
+	 */
+	libs: string[];
+	/**
+	 * The remappings from the profile followed by those from `remappings.txt`, so that the profile takes precedence.
+	 */
+	remappings: Remapping[];
+}
+
+/**
+ * The settings of a profile in `foundry.toml`. Non-default profiles inherit unset settings from the default profile.
+ * Unlike the project, the remappings do not include those from `remappings.txt`.
+ */
+export type FoundryConfig = Omit<FoundryProject, 'root' | 'profile'>;
+
+const foundryProjectCache: Map<string, Promise<FoundryProject | undefined>> = new Map();
+
+/**
+ * Gets the Foundry project in a folder, or undefined if the folder does not contain `foundry.toml`.
+ * Projects are cached per folder until `clearFoundryProjectCache` is called.
+ */
+export function getFoundryProject(folder: string): Promise<FoundryProject | undefined> {
+	let result = foundryProjectCache.get(folder);
+	if (!result) {
+		result = readFoundryProject(folder);
+		foundryProjectCache.set(folder, result);
+	}
+	return result;
+}
+
+export function clearFoundryProjectCache() {
+	foundryProjectCache.clear();
+}
+
+/**
+ * Gets the directories that contain dependencies of the project in a folder. These are used to resolve imports, but are not checked.
+ *
+ * @returns the absolute paths of the library directories of a Foundry project, or `lib` by name if the folder is not a Foundry project
+ */
+export async function getLibraryDirectories(folder: string): Promise<string[]> {
+	const foundryProject = await getFoundryProject(folder);
+	return foundryProject !== undefined ? foundryProject.libs.map(lib => path.resolve(folder, lib)) : ['lib'];
+}
+
+export function getActiveFoundryProfile(): string {
+	return process.env.FOUNDRY_PROFILE || DEFAULT_PROFILE;
+}
+
+async function readFoundryProject(folder: string): Promise<FoundryProject | undefined> {
+	const configPath = path.join(folder, FOUNDRY_CONFIG_FILE);
+	let text;
+	try {
+		text = await fs.readFile(configPath, 'utf8');
+	} catch (e: any) {
+		// not a Foundry project
+		return undefined;
+	}
+
+	const profile = getActiveFoundryProfile();
+	let config;
+	try {
+		config = parseFoundryConfig(text, profile);
+	} catch (e: any) {
+		console.error(`Could not parse ${configPath}: ${e.message}`);
+		config = parseFoundryConfig('', profile);
+	}
+
+	return {
+		root: folder,
+		profile,
+		...config,
+		remappings: [...config.remappings, ...await readRemappingsFile(folder)],
+	};
+}
+
+/**
+ * Parses `foundry.toml` and resolves the settings of the given profile.
+ *
+ * @throws if the text is not valid TOML
+ */
+export function parseFoundryConfig(text: string, profile: string = DEFAULT_PROFILE): FoundryConfig {
+	const toml = parse(text);
+	const profiles = toTable(toml.profile);
+	const defaultProfile = toTable(profiles[DEFAULT_PROFILE]);
+	const activeProfile = toTable(profiles[profile]);
+
+	// aliases of a setting are resolved within each profile, so that the active profile takes precedence regardless of the alias used
+	const get = (...keys: string[]) => [activeProfile, defaultProfile].flatMap(table => keys.map(key => table[key])).find(value => value !== undefined);
+
+	const solc = get('solc_version', 'solc');
+	const src = get('src');
+	const libs = get('libs');
+	const remappings = get('remappings');
+
+	return {
+		solcVersion: typeof solc === 'string' && isVersion(solc) ? solc.trim().replace(/^v/, '') : undefined,
+		src: typeof src === 'string' ? src : 'src',
+		libs: Array.isArray(libs) ? libs.filter((lib): lib is string => typeof lib === 'string') : ['lib'],
+		remappings: Array.isArray(remappings)
+			? remappings.flatMap(remapping => typeof remapping === 'string' ? parseRemapping(remapping) ?? [] : [])
+			: [],
+	};
+}
+
+/**
+ * Returns the value if it is a TOML table, or an empty table otherwise.
+ */
+function toTable(value: unknown): Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date) ? value as Record<string, unknown> : {};
+}
+
+/**
+ * Whether a `solc` setting is a version, as opposed to a path to a compiler binary.
+ */
+function isVersion(solc: string) {
+	return /^v?\d+\.\d+\.\d+$/.test(solc.trim());
+}
@@ -0,0 +1,428 @@
+import semver from 'semver';
+
+import path from 'path';
+import { promises as fs } from 'fs';
+
+/**
+ * Hardhat config files, in the order Hardhat looks for them.
+ */
+export const HARDHAT_CONFIG_FILES = ['hardhat.config.ts', 'hardhat.config.cts', 'hardhat.config.mts', 'hardhat.config.js', 'hardhat.config.cjs', 'hardhat.config.mjs'];
+
+/**
+ * The Solidity compilers of a Hardhat project, from the `solidity` field of its config.
+ */
+export type HardhatSolidityConfig = {
+	/**
+	 * The versions of the configured compilers.
+	 */
+	compilers: string[];
+	/**
+	 * Compiler versions for specific files, keyed by source name, which is the path of the file relative to the project root.
+	 */
+	overrides: Record<string, string>;
+}
+
+export type HardhatProject = {
+	/**
+	 * The folder that contains the Hardhat config.
+	 */
+	root: string;
+	/**
+	 * The name of the config file.
+	 */
+	configFile: string;
+	solidity: HardhatSolidityConfig;
+}
+
+const hardhatProjectCache: Map<string, Promise<HardhatProject | undefined>> = new Map();
+
+/**
+ * Gets the Hardhat project in a folder, or undefined if the folder does not contain a Hardhat config with Solidity compilers.
+ * Projects are cached per folder until `clearHardhatProjectCache` is called.
+ */
+export function getHardhatProject(folder: string): Promise<HardhatProject | undefined> {
+	let result = hardhatProjectCache.get(folder);
+	if (!result) {
+		result = readHardhatProject(folder);
+		hardhatProjectCache.set(folder, result);
+	}
+	return result;
+}
+
+export function clearHardhatProjectCache() {
+	hardhatProjectCache.clear();
+}
+
+async function readHardhatProject(folder: string): Promise<HardhatProject | undefined> {
+	for (const configFile of HARDHAT_CONFIG_FILES) {
+		let text;
+		try {
+			text = await fs.readFile(path.join(folder, configFile), 'utf8');
+		} catch (e: any) {
+			continue;
+		}
+
+		const solidity = parseHardhatSolidityConfig(text);
+		if (solidity === undefined) {
+			console.log(`Could not read Solidity compilers from ${configFile}`);
+			return undefined;
+		}
+		return { root: folder, configFile, solidity };
+	}
+	return undefined;
+}
+
+/**
+ * Selects the compiler version that Hardhat uses for a file:
+ * 1. The override for the file's source name, if any
+ * 2. Otherwise, the newest configured compiler that satisfies all of the file's pragmas
+ *
+ * Unlike Hardhat, this only considers the pragmas of the file itself and not those of its imports.
+ *
+ * @param sourceName the path of the file relative to the project root
+ * @param pragmaVersionRanges the version ranges of the file's `pragma solidity` directives
+ * @returns the compiler version, or undefined if no configured compiler can compile the file
+ */
+export function selectHardhatCompiler(solidity: HardhatSolidityConfig, sourceName: string, pragmaVersionRanges: string[]): string | undefined {
+	const override = solidity.overrides[sourceName];
+	if (override !== undefined) {
+		return override;
+	}
+
+	const candidates = solidity.compilers.filter(version => pragmaVersionRanges.every(range => semver.satisfies(version, range)));
+	return semver.rsort([...candidates])[0];
+}
+
+/**
+ * Reads the `solidity` field from the text of a Hardhat config, without running it.
+ * The field can be a version string, an object with a `version`, or an object with `compilers` and `overrides`.
+ * Values can be literals or references to constants declared in the same file.
+ *
+ * @returns the compilers, or undefined if the field is missing or cannot be read statically
+ */
+export function parseHardhatSolidityConfig(text: string): HardhatSolidityConfig | undefined {
+	const source = stripComments(text);
+	for (const match of source.matchAll(/\bsolidity\s*:/g)) {
+		const value = parseValue({ text: source, index: match.index! + match[0].length, depth: 0 });
+		const config = toSolidityConfig(value);
+		if (config !== undefined) {
+			return config;
+		}
+	}
+	return undefined;
+}
+
+function toSolidityConfig(value: unknown): HardhatSolidityConfig | undefined {
+	const toVersion = (compiler: unknown) => {
+		const version = typeof compiler === 'string' ? compiler : isObject(compiler) ? compiler.version : undefined;
+		return typeof version === 'string' && semver.valid(version) !== null ? version : undefined;
+	};
+
+	if (typeof value === 'string') {
+		const version = toVersion(value);
+		return version !== undefined ? { compilers: [version], overrides: {} } : undefined;
+	}
+	if (!isObject(value)) {
+		return undefined;
+	}
+
+	const compilers: string[] = [];
+	if (Array.isArray(value.compilers)) {
+		for (const compiler of value.compilers) {
+			const version = toVersion(compiler);
+			if (version !== undefined) {
+				compilers.push(version);
+			}
+		}
+	} else {
+		const version = toVersion(value);
+		if (version !== undefined) {
+			compilers.push(version);
+		}
+	}
+
+	const overrides: Record<string, string> = {};
+	if (isObject(value.overrides)) {
+		for (const [sourceName, compiler] of Object.entries(value.overrides)) {
+			const version = toVersion(compiler);
+			if (version !== undefined) {
+				overrides[sourceName] = version;
+			}
+		}
+	}
+
+	return compilers.length > 0 || Object.keys(overrides).length > 0 ? { compilers, overrides } : undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A minimal parser for the literal subset of JavaScript that Hardhat configs use for their `solidity` field.
+ * Expressions that are not literals are skipped and parsed as `UNKNOWN`.
+ */
+type Parser = {
+	text: string;
+	index: number;
+	/**
+	 * How many constant references have been followed, to avoid following cycles.
+	 */
+	depth: number;
+}
+
+const UNKNOWN = Symbol('unknown');
+
+const MAX_REFERENCE_DEPTH = 4;
+
+function parseValue(parser: Parser): unknown {
+	const value = parsePrimary(parser);
+	skipWhitespace(parser);
+	if (parser.index < parser.text.length && !',;)]}'.includes(parser.text[parser.index])) {
+		// the literal is part of a larger expression, such as a concatenation or a method call
+		skipExpression(parser);
+		return UNKNOWN;
+	}
+	return value;
+}
+
+function parsePrimary(parser: Parser): unknown {
+	skipWhitespace(parser);
+	const char = parser.text[parser.index];
+
+	if (char === '"' || char === "'" || char === '`') {
+		return parseString(parser);
+	} else if (char === '[') {
+		return parseArray(parser);
+	} else if (char === '{') {
+		return parseObject(parser);
+	}
+
+	const number = matchAt(parser, /-?\d+(\.\d+)?/y);
+	if (number !== undefined) {
+		return Number(number);
+	}
+
+	const identifier = matchAt(parser, /[A-Za-z_$][\w$]*/y);
+	if (identifier === 'true' || identifier === 'false') {
+		return identifier === 'true';
+	} else if (identifier === 'null' || identifier === 'undefined') {
+		return undefined;
+	} else if (identifier !== undefined) {
+		skipWhitespace(parser);
+		if (parser.index >= parser.text.length || ',;)]}'.includes(parser.text[parser.index])) {
+			return resolveConstant(parser, identifier);
+		}
+	}
+
+	skipExpression(parser);
+	return UNKNOWN;
+}
+
+function parseString(parser: Parser): string | typeof UNKNOWN {
+	const quote = parser.text[parser.index++];
+	let result = '';
+	while (parser.index < parser.text.length) {
+		const char = parser.text[parser.index++];
+		if (char === quote) {
+			return result;
+		} else if (char === '\\') {
+			result += parser.text[parser.index++] ?? '';
+		} else if (quote === '`' && char === '$' && parser.text[parser.index] === '{') {
+			// template literals with substitutions cannot be evaluated
+			parser.index = parser.text.indexOf('`', parser.index) + 1 || parser.text.length;
+			return UNKNOWN;
+		} else {
+			result += char;
+		}
+	}
+	return UNKNOWN;
+}
+
+function parseArray(parser: Parser): unknown[] {
+	const result: unknown[] = [];
+	parser.index++;
+	while (parser.index < parser.text.length) {
+		const start = parser.index;
+		skipWhitespace(parser);
+		if (parser.index >= parser.text.length || parser.text[parser.index] === ']') {
+			parser.index++;
+			return result;
+		}
+
+		if (parser.text.startsWith('...', parser.index)) {
+			skipExpression(parser);
+		} else {
+			const value = parseValue(parser);
+			if (value !== UNKNOWN) {
+				result.push(value);
+			}
+		}
+
+		skipWhitespace(parser);
+		if (parser.text[parser.index] === ',') {
+			parser.index++;
+		} else if (parser.text[parser.index] !== ']') {
+			skipExpression(parser);
+		}
+		if (parser.index === start) {
+			// unbalanced closing bracket
+			parser.index++;
+		}
+	}
+	return result;
+}
+
+function parseObject(parser: Parser): Record<string, unknown> {
+	const result: Record<string, unknown> = {};
+	parser.index++;
+	while (parser.index < parser.text.length) {
+		const start = parser.index;
+		skipWhitespace(parser);
+		if (parser.index >= parser.text.length || parser.text[parser.index] === '}') {
+			parser.index++;
+			return result;
+		}
+
+		let key: string | undefined = undefined;
+		const char = parser.text[parser.index];
+		if (char === '"' || char === "'") {
+			const parsedKey = parseString(parser);
+			key = typeof parsedKey === 'string' ? parsedKey : undefined;
+		} else {
+			key = matchAt(parser, /[\w$]+/y);
+		}
+
+		skipWhitespace(parser);
+		if (key !== undefined && parser.text[parser.index] === ':') {
+			parser.index++;
+			const value = parseValue(parser);
+			if (value !== UNKNOWN) {
+				result[key] = value;
+			}
+		} else if (key !== undefined && (parser.text[parser.index] === ',' || parser.text[parser.index] === '}')) {
+			// shorthand property
+			const value = resolveConstant(parser, key);
+			if (value !== UNKNOWN) {
+				result[key] = value;
+			}
+		} else {
+			// spread, computed key or method
+			skipExpression(parser);
+		}
+
+		skipWhitespace(parser);
+		if (parser.text[parser.index] === ',') {
+			parser.index++;
+		} else if (parser.text[parser.index] !== '}') {
+			skipExpression(parser);
+		}
+		if (parser.index === start) {
+			// unbalanced closing bracket
+			parser.index++;
+		}
+	}
+	return result;
+}
+
+/**
+ * Resolves a reference to a constant declared in the same file, such as `const SOLIDITY_VERSION = "0.8.20";`.
+ */
+function resolveConstant(parser: Parser, name: string): unknown {
+	if (parser.depth >= MAX_REFERENCE_DEPTH) {
+		return UNKNOWN;
+	}
+	const declaration = new RegExp(`\\b(?:const|let|var)\\s+${name.replace(/\$/g, '\\$')}\\s*(?::[^=;]+)?=(?!=)`).exec(parser.text);
+	if (declaration === null) {
+		return UNKNOWN;
+	}
+	return parseValue({ text: parser.text, index: declaration.index + declaration[0].length, depth: parser.depth + 1 });
+}
+
+/**
+ * Skips to the end of the current expression, which is the next `,`, `;` or closing bracket outside of nested brackets and strings.
+ */
+function skipExpression(parser: Parser) {
+	let depth = 0;
+	while (parser.index < parser.text.length) {
+		const char = parser.text[parser.index];
+		if (char === '"' || char === "'" || char === '`') {
+			parseString(parser);
+			continue;
+		}
+		if ('([{'.includes(char)) {
+			depth++;
+		} else if (')]}'.includes(char)) {
+			if (depth === 0) {
+				return;
+			}
+			depth--;
+		} else if ((char === ',' || char === ';') && depth === 0) {
+			return;
+		}
+		parser.index++;
+	}
+}
+
+function skipWhitespace(parser: Parser) {
+	while (parser.index < parser.text.length && /\s/.test(parser.text[parser.index])) {
+		parser.index++;
+	}
+}
+
+function matchAt(parser: Parser, stickyRegex: RegExp): string | undefined {
+	stickyRegex.lastIndex = parser.index;
+	const match = stickyRegex.exec(parser.text);
+	if (match === null) {
+		return undefined;
+	}
+	parser.index += match[0].length;
+	return match[0];
+}
+
+/**
+ * Replaces comments with spaces, keeping strings intact.
+ */
+function stripComments(text: string): string {
+	let result = '';
+	let i = 0;
+	while (i < text.length) {
+		const char = text[i];
+		if (char === '"' || char === "'" || char === '`') {
+			const end = findStringEnd(text, i);
+			result += text.substring(i, end);
+			i = end;
+		} else if (text.startsWith('//', i)) {
+			const end = text.indexOf('\n', i);
+			const commentEnd = end === -1 ? text.length : end;
+			result += ' '.repeat(commentEnd - i);
+			i = commentEnd;
+		} else if (text.startsWith('/*', i)) {
+			const end = text.indexOf('*/', i + 2);
+			const commentEnd = end === -1 ? text.length : end + 2;
+			result += text.substring(i, commentEnd).replace(/[^\n]/g, ' ');
+			i = commentEnd;
+		} else {
+			result += char;
+			i++;
+		}
+	}
+	return result;
+}
+
+function findStringEnd(text: string, start: number): number {
+	const quote = text[start];
+	let i = start + 1;
+	while (i < text.length) {
+		if (text[i] === '\\') {
+			i += 2;
+		} else if (text[i] === quote) {
+			return i + 1;
+		} else if (text[i] === '\n' && quote !== '`') {
+			return i;
+		} else {
+			i++;
+		}
+	}
+	return text.length;
+}
@@ -0,0 +1,68 @@
+import { TextDocument, TextEdit } from 'vscode-languageserver-textdocument';
+
+/**
+ * Infers the indentation unit of a document, by looking at how much the first line of each block is indented relative to the line that opens it.
+ *
+ * @returns the most common indentation unit, or undefined if the document has no indented blocks
+ */
+export function inferIndent(text: string): string | undefined {
+	const counts: Map<string, number> = new Map();
+	const lines = text.split(/\r?\n/);
+
+	for (let i = 0; i < lines.length - 1; i++) {
+		if (!/\{\s*(\/\/.*)?$/.test(lines[i])) {
+			continue;
+		}
+		const nextLine = lines.slice(i + 1).find(line => line.trim().length > 0);
+		if (nextLine === undefined) {
+			continue;
+		}
+
+		const outerIndent = getLeadingWhitespace(lines[i]);
+		const innerIndent = getLeadingWhitespace(nextLine);
+		if (innerIndent.length > outerIndent.length && innerIndent.startsWith(outerIndent)) {
+			const unit = innerIndent.substring(outerIndent.length);
+			counts.set(unit, (counts.get(unit) ?? 0) + 1);
+		}
+	}
+
+	let result: string | undefined = undefined;
+	for (const [unit, count] of counts) {
+		if (result === undefined || count > counts.get(result)!) {
+			result = unit;
+		}
+	}
+	return result;
+}
+
+/**
+ * Infers the line ending style of a document.
+ *
+ * @returns `\r\n` if most lines end with CRLF, `\n` if most lines end with LF, or undefined if the document has a single line
+ */
+export function inferEol(text: string): string | undefined {
+	const crlfCount = text.match(/\r\n/g)?.length ?? 0;
+	const lfCount = (text.match(/\n/g)?.length ?? 0) - crlfCount;
+	if (crlfCount === 0 && lfCount === 0) {
+		return undefined;
+	}
+	return crlfCount > lfCount ? '\r\n' : '\n';
+}
+
+/**
+ * Converts the line endings in the new text of each edit to the given line ending.
+ */
+export function normalizeLineEndings(edits: TextEdit[], eol: string): TextEdit[] {
+	return edits.map(edit => ({ ...edit, newText: edit.newText.replace(/\r?\n/g, eol) }));
+}
+
+/**
+ * Gets the whitespace at the start of a line of the document.
+ */
+export function getLineIndent(textDocument: TextDocument, line: number): string {
+	return getLeadingWhitespace(textDocument.getText({ start: { line, character: 0 }, end: { line: line + 1, character: 0 } }));
+}
+
+function getLeadingWhitespace(line: string) {
+	return line.match(/^[ \t]*/)![0];
+}
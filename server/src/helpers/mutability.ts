@@ -0,0 +1,332 @@
+import { NonterminalKind, TerminalKind, EdgeLabel } from "@nomicfoundation/slang/kinds";
+import assert = require('node:assert');
+import { NonterminalNode, TerminalNode } from '@nomicfoundation/slang/cst';
+import { FunctionCallExpression, FunctionDefinition, NamedArgumentsDeclaration, PositionalArgumentsDeclaration } from '@nomicfoundation/slang/ast';
+import { cursor, text_index } from '@nomicfoundation/slang';
+import { IdentifierReference } from './scope';
+import { isTrivia } from './slang';
+
+export type StateMutability = 'pure' | 'view' | 'nonpayable' | 'payable';
+
+export type DeclaredMutability = {
+	mutability: StateMutability;
+	/**
+	 * The range of the mutability keyword, if the definition has one.
+	 */
+	keywordRange?: text_index.TextRange;
+	/**
+	 * The range of the attribute containing the mutability keyword, including its trailing trivia.
+	 */
+	attributeRange?: text_index.TextRange;
+	/**
+	 * Whether the definition is `public` or `external`, so that its mutability is part of the ABI.
+	 */
+	externallyVisible: boolean;
+}
+
+/**
+ * The declared mutability and parameters of a function, to resolve calls among its overloads.
+ */
+export type FunctionOverload = {
+	mutability: StateMutability;
+	parameters: {
+		name?: string;
+		typeName: string;
+		isStorage: boolean;
+	}[];
+}
+
+/**
+ * The overloads of each function that can be called, keyed by function name.
+ */
+export type FunctionMutabilities = Map<string, FunctionOverload[]>;
+
+/**
+ * The argument that a state variable is passed as: by position, or by name in `f({name: value})`.
+ */
+type CallArgument = { index: number } | { name: string };
+
+const MUTABILITY_ORDER: StateMutability[] = ['pure', 'view', 'nonpayable', 'payable'];
+
+/**
+ * Gets the mutability that is declared in the attributes of a function, fallback or receive definition.
+ * Definitions without a mutability keyword are nonpayable.
+ */
+export function getDeclaredMutability(definitionCursor: cursor.Cursor): DeclaredMutability {
+	const result: DeclaredMutability = {
+		mutability: 'nonpayable',
+		externallyVisible: false,
+	};
+
+	const attributesCursor = definitionCursor.spawn();
+	if (!attributesCursor.goToFirstChild()) {
+		return result;
+	}
+	while (attributesCursor.label !== EdgeLabel.Attributes) {
+		if (!attributesCursor.goToNextSibling()) {
+			return result;
+		}
+	}
+
+	// only look at keywords that are attributes themselves, since modifier invocations can contain keywords such as `payable(...)`
+	const attributeCursor = attributesCursor.spawn();
+	if (!attributeCursor.goToFirstChild()) {
+		return result;
+	}
+	do {
+		const keywordCursor = attributeCursor.spawn();
+		if (!keywordCursor.goToFirstChild()) {
+			continue;
+		}
+		while (isTrivia(keywordCursor.node()) && keywordCursor.goToNextSibling()) {
+			// skip leading trivia
+		}
+		const keyword = keywordCursor.node();
+		if (!(keyword instanceof TerminalNode)) {
+			continue;
+		}
+
+		switch (keyword.kind) {
+			case TerminalKind.PureKeyword:
+			case TerminalKind.ViewKeyword:
+			case TerminalKind.PayableKeyword:
+				result.mutability = keyword.text as StateMutability;
+				result.keywordRange = keywordCursor.textRange;
+				result.attributeRange = attributeCursor.textRange;
+				break;
+			case TerminalKind.PublicKeyword:
+			case TerminalKind.ExternalKeyword:
+				result.externallyVisible = true;
+				break;
+		}
+	} while (attributeCursor.goToNextSibling());
+
+	return result;
+}
+
+/**
+ * Gets the declared mutability and parameters of each function defined in a source unit, such as internal library functions.
+ *
+ * @param sourceUnitCursor a cursor pointing to a SourceUnit
+ */
+export function getFunctionMutabilities(sourceUnitCursor: cursor.Cursor): FunctionMutabilities {
+	const mutabilities: FunctionMutabilities = new Map();
+	const functionCursor = sourceUnitCursor.spawn();
+	while (functionCursor.goToNextNonterminalWithKind(NonterminalKind.FunctionDefinition)) {
+		const functionDefNode = functionCursor.node();
+		assert(functionDefNode instanceof NonterminalNode);
+		const functionDef = new FunctionDefinition(functionDefNode);
+
+		const name = functionDef.name.cst.unparse().trim();
+		const overload: FunctionOverload = {
+			mutability: getDeclaredMutability(functionCursor).mutability,
+			parameters: functionDef.parameters.parameters.items.map(parameter => ({
+				name: parameter.name?.text,
+				typeName: parameter.typeName.cst.unparse().trim(),
+				isStorage: parameter.storageLocation?.variant.kind === TerminalKind.StorageKeyword,
+			})),
+		};
+		mutabilities.set(name, [...mutabilities.get(name) ?? [], overload]);
+	}
+	return mutabilities;
+}
+
+/**
+ * Gets the mutability that a definition needs for the given accesses to state variables.
+ *
+ * @param referenceTypeVariables the type names of the state variables with reference types, keyed by variable name
+ */
+export function getRequiredMutability(references: IdentifierReference[], referenceTypeVariables: Map<string, string>, functionMutabilities: FunctionMutabilities): StateMutability {
+	if (references.length === 0) {
+		return 'pure';
+	}
+	return references.some(reference => isWriteAccess(reference, referenceTypeVariables.get(reference.name), functionMutabilities)) ? 'nonpayable' : 'view';
+}
+
+/**
+ * Returns the least restrictive of two mutabilities, e.g. `view` for `pure` and `view`.
+ */
+export function maxMutability(a: StateMutability, b: StateMutability): StateMutability {
+	return MUTABILITY_ORDER.indexOf(a) >= MUTABILITY_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * Determines whether a reference to a state variable modifies it. This is the case if the variable, or an element or member of it, is:
+ * - assigned to, including as part of a tuple
+ * - incremented, decremented or deleted
+ * - an array that `push` or `pop` is called on
+ * - passed as a storage reference to a function that modifies state, either as an argument or as the receiver of a function attached with `using for`
+ *
+ * Functions are resolved in `functionMutabilities` by name, number of arguments, and the type of the storage parameter that the variable is passed as.
+ * Calls that cannot be resolved to a single overload are not considered to modify state, so that the mutability of the caller is left alone.
+ *
+ * @param reference the reference to the state variable
+ * @param referenceTypeName the type name of the state variable if it has a reference type, so that it is passed to functions as a storage reference
+ * @param functionMutabilities the overloads of functions that can be called
+ */
+export function isWriteAccess(reference: IdentifierReference, referenceTypeName: string | undefined, functionMutabilities: FunctionMutabilities): boolean {
+	let expressionCursor = reference.cursor.clone();
+	if (!expressionCursor.goToParent()) {
+		return false;
+	}
+	let direct = true;
+
+	for (;;) {
+		const label = expressionCursor.label;
+		const parentCursor = expressionCursor.clone();
+		if (!parentCursor.goToParent()) {
+			return false;
+		}
+		const parent = parentCursor.node();
+		if (!(parent instanceof NonterminalNode)) {
+			return false;
+		}
+
+		switch (parent.kind) {
+			case NonterminalKind.IndexAccessExpression:
+				if (label !== EdgeLabel.Operand) {
+					return false;
+				}
+				direct = false;
+				break;
+			case NonterminalKind.MemberAccessExpression: {
+				if (label !== EdgeLabel.Operand) {
+					return false;
+				}
+				const callCursor = parentCursor.clone();
+				if (callCursor.goToParent() && callCursor.label === EdgeLabel.Operand && callCursor.goToParent() && callCursor.node().kind === NonterminalKind.FunctionCallExpression) {
+					const member = parent.children().find(child => child instanceof NonterminalNode && child.kind === NonterminalKind.MemberAccess);
+					const memberName = member instanceof NonterminalNode ? member.unparse().trim() : undefined;
+					if (memberName === 'push' || memberName === 'pop') {
+						return true;
+					}
+					// the receiver of a function attached with `using for` is its first parameter
+					return referenceTypeName !== undefined && direct && memberName !== undefined &&
+						isModifyingCall(resolveOverload(memberName, callCursor, { index: 0 }, 1, referenceTypeName, functionMutabilities));
+				}
+				direct = false;
+				break;
+			}
+			case NonterminalKind.AssignmentExpression:
+				return label === EdgeLabel.LeftOperand;
+			case NonterminalKind.PrefixExpression:
+			case NonterminalKind.PostfixExpression:
+				return parent.children().some(child => child instanceof TerminalNode &&
+					(child.kind === TerminalKind.PlusPlus || child.kind === TerminalKind.MinusMinus || child.kind === TerminalKind.DeleteKeyword));
+			case NonterminalKind.PositionalArguments:
+			case NonterminalKind.NamedArgument: {
+				if (referenceTypeName === undefined || !direct) {
+					return false;
+				}
+				const callCursor = findCallExpression(parentCursor);
+				const name = callCursor !== undefined ? getCalledFunctionName(callCursor) : undefined;
+				const argument: CallArgument = parent.kind === NonterminalKind.PositionalArguments
+					? { index: getArgumentIndex(parentCursor, expressionCursor) }
+					: { name: parent.children().find((child): child is TerminalNode => child instanceof TerminalNode && child.kind === TerminalKind.Identifier)?.text ?? '' };
+				return callCursor !== undefined && name !== undefined &&
+					isModifyingCall(resolveOverload(name, callCursor, argument, 0, referenceTypeName, functionMutabilities));
+			}
+			case NonterminalKind.TupleValue:
+				// the tuple may be the left operand of an assignment
+				parentCursor.goToParent(); // TupleValues
+				parentCursor.goToParent(); // TupleExpression
+				break;
+			default:
+				return false;
+		}
+
+		// continue with the expression containing the parent
+		if (!parentCursor.goToParent() || parentCursor.node().kind !== NonterminalKind.Expression) {
+			return false;
+		}
+		expressionCursor = parentCursor;
+	}
+}
+
+function isModifyingCall(overload: FunctionOverload | undefined): boolean {
+	return overload !== undefined && (overload.mutability === 'nonpayable' || overload.mutability === 'payable');
+}
+
+/**
+ * Resolves the overload of a function that a state variable is passed to, by the number of arguments and the type of the storage parameter at the argument.
+ *
+ * @param callCursor a cursor pointing to the FunctionCallExpression
+ * @param implicitArguments the number of arguments that are not in the argument list, i.e. 1 for the receiver of a function attached with `using for`
+ * @returns the overload, or undefined if no overload or more than one overload matches
+ */
+function resolveOverload(name: string, callCursor: cursor.Cursor, argument: CallArgument, implicitArguments: number, typeName: string, functionMutabilities: FunctionMutabilities): FunctionOverload | undefined {
+	const callNode = callCursor.node();
+	assert(callNode instanceof NonterminalNode);
+	const callArguments = new FunctionCallExpression(callNode).arguments.variant;
+	const argumentCount = implicitArguments + (callArguments instanceof PositionalArgumentsDeclaration
+		? callArguments.arguments.items.length
+		: (callArguments as NamedArgumentsDeclaration).arguments?.arguments.items.length ?? 0);
+
+	const candidates = (functionMutabilities.get(name) ?? []).filter(overload => {
+		if (overload.parameters.length !== argumentCount) {
+			return false;
+		}
+		const parameter = 'index' in argument ? overload.parameters[argument.index] : overload.parameters.find(parameter => parameter.name === argument.name);
+		return parameter !== undefined && parameter.isStorage && isSameType(parameter.typeName, typeName);
+	});
+	return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+/**
+ * Compares type names regardless of whitespace, aliases such as `uint` and `uint256`, and the library or contract that qualifies a struct,
+ * since a library refers to its own struct `Set` that callers name `Sets.Set`.
+ */
+function isSameType(a: string, b: string): boolean {
+	const normalize = (typeName: string) => typeName
+		.replace(/\s+/g, '')
+		.replace(/\b(u?int)\b/g, '$1256')
+		.replace(/\b\w+\./g, '');
+	return normalize(a) === normalize(b);
+}
+
+/**
+ * Finds the function call that the given arguments belong to.
+ *
+ * @param argumentsCursor a cursor pointing to the arguments of a function call
+ * @returns a cursor pointing to the FunctionCallExpression, or undefined if the arguments are not of a function call
+ */
+function findCallExpression(argumentsCursor: cursor.Cursor): cursor.Cursor | undefined {
+	const callCursor = argumentsCursor.clone();
+	while (callCursor.node().kind !== NonterminalKind.FunctionCallExpression) {
+		if (callCursor.node().kind === NonterminalKind.Expression || !callCursor.goToParent()) {
+			return undefined;
+		}
+	}
+	return callCursor;
+}
+
+/**
+ * Gets the name of the function that is called, e.g. `add` for `Sets.add(set, 1)`.
+ *
+ * @param callCursor a cursor pointing to a FunctionCallExpression
+ */
+function getCalledFunctionName(callCursor: cursor.Cursor): string | undefined {
+	const calleeCursor = callCursor.spawn();
+	if (!calleeCursor.goToNextNonterminalWithKind(NonterminalKind.Expression)) {
+		return undefined;
+	}
+	const callee = (calleeCursor.node() as NonterminalNode).unparse().trim();
+	return callee.match(/(\w+)$/)?.[1];
+}
+
+/**
+ * Gets the position of an argument in a list of positional arguments.
+ *
+ * @param argumentsCursor a cursor pointing to PositionalArguments
+ * @param argumentCursor a cursor pointing to the Expression of the argument
+ */
+function getArgumentIndex(argumentsCursor: cursor.Cursor, argumentCursor: cursor.Cursor): number {
+	let index = 0;
+	const siblingCursor = argumentsCursor.spawn();
+	while (siblingCursor.goToNextNonterminalWithKind(NonterminalKind.Expression) && siblingCursor.textRange.start.utf16 < argumentCursor.textRange.start.utf16) {
+		if (siblingCursor.depth === 1) {
+			index++;
+		}
+	}
+	return index;
+}
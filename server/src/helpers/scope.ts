@@ -0,0 +1,129 @@
+import { NonterminalKind, TerminalKind, EdgeLabel } from "@nomicfoundation/slang/kinds";
+import { NonterminalNode, TerminalNode } from '@nomicfoundation/slang/cst';
+import { cursor, text_index } from '@nomicfoundation/slang';
+
+export interface IdentifierReference {
+	name: string;
+	textRange: text_index.TextRange;
+	/**
+	 * A cursor pointing to the identifier, which can be used to inspect the expressions around it within the definition.
+	 */
+	cursor: cursor.Cursor;
+}
+
+/**
+ * Nonterminals that introduce a new scope for the declarations inside them.
+ */
+const SCOPE_KINDS = [
+	NonterminalKind.Block,
+	NonterminalKind.ForStatement,
+	NonterminalKind.TryStatement,
+	NonterminalKind.CatchClause,
+];
+
+/**
+ * Statements that declare local variables. The variables are visible after the statement, until the end of the enclosing scope.
+ */
+const DECLARATION_STATEMENT_KINDS = [
+	NonterminalKind.VariableDeclarationStatement,
+	NonterminalKind.TupleDeconstructionStatement,
+];
+
+/**
+ * Nonterminals that are not searched for references, because state variables cannot be referenced by name in them.
+ */
+const IGNORED_KINDS = [
+	NonterminalKind.FunctionType,
+	NonterminalKind.AssemblyStatement,
+];
+
+/**
+ * Finds the identifiers that refer to the given state variables within a definition such as a function, modifier or constructor.
+ *
+ * Each identifier used as an expression is resolved against the declarations in scope at that point:
+ * parameters, return variables, and local variables in enclosing blocks that were declared before it.
+ * Identifiers that resolve to one of those declarations shadow the state variable and are not included,
+ * and neither are member names in member accesses (e.g. `balance` in `foo.balance`) or named arguments.
+ *
+ * @param definitionCursor a cursor pointing to the definition to search
+ * @param stateVariableNames the names of the state variables to find references to
+ */
+export function findStateVariableReferences(definitionCursor: cursor.Cursor, stateVariableNames: string[]): IdentifierReference[] {
+	const references: IdentifierReference[] = [];
+	const scopes: Set<string>[] = [new Set()];
+
+	function isShadowed(name: string) {
+		return scopes.some(scope => scope.has(name));
+	}
+
+	function visitChildren(parentCursor: cursor.Cursor) {
+		// clone instead of spawning, so that references can be inspected in the context of their ancestors
+		const childCursor = parentCursor.clone();
+		if (!childCursor.goToFirstChild()) {
+			return;
+		}
+		do {
+			visit(childCursor, parentCursor.node() as NonterminalNode);
+		} while (childCursor.goToNextSibling());
+	}
+
+	function visit(nodeCursor: cursor.Cursor, parent: NonterminalNode | undefined) {
+		const node = nodeCursor.node();
+
+		if (node instanceof TerminalNode) {
+			if (node.kind === TerminalKind.Identifier && parent?.kind === NonterminalKind.Expression && stateVariableNames.includes(node.text) && !isShadowed(node.text)) {
+				references.push({ name: node.text, textRange: nodeCursor.textRange, cursor: nodeCursor.clone() });
+			}
+			return;
+		}
+
+		if (IGNORED_KINDS.includes(node.kind)) {
+			return;
+		}
+
+		if (SCOPE_KINDS.includes(node.kind)) {
+			scopes.push(new Set());
+			visitChildren(nodeCursor);
+			scopes.pop();
+		} else if (DECLARATION_STATEMENT_KINDS.includes(node.kind)) {
+			visitChildren(nodeCursor);
+			for (const name of getDeclaredNames(nodeCursor)) {
+				scopes[scopes.length - 1].add(name);
+			}
+		} else if (node.kind === NonterminalKind.Parameter) {
+			for (const name of getDeclaredNames(nodeCursor)) {
+				scopes[scopes.length - 1].add(name);
+			}
+		} else {
+			visitChildren(nodeCursor);
+		}
+	}
+
+	visit(definitionCursor.spawn(), undefined);
+	return references;
+}
+
+/**
+ * Gets the names declared by a parameter or a variable declaration statement, including each member of a tuple deconstruction.
+ */
+function getDeclaredNames(declarationCursor: cursor.Cursor): string[] {
+	const names: string[] = [];
+	const declaration = declarationCursor.node() as NonterminalNode;
+	if (declaration.kind === NonterminalKind.TupleDeconstructionStatement) {
+		const memberCursor = declarationCursor.spawn();
+		while (memberCursor.goToNextNonterminalWithKinds([NonterminalKind.TypedTupleMember, NonterminalKind.UntypedTupleMember])) {
+			names.push(...getDeclaredNames(memberCursor));
+		}
+	} else {
+		const childCursor = declarationCursor.spawn();
+		if (childCursor.goToFirstChild()) {
+			do {
+				const child = childCursor.node();
+				if (child instanceof TerminalNode && child.kind === TerminalKind.Identifier && childCursor.label === EdgeLabel.Name) {
+					names.push(child.text);
+				}
+			} while (childCursor.goToNextSibling());
+		}
+	}
+	return names;
+}
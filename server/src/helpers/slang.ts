@@ -2,10 +2,11 @@ import {
 	Range,
 	TextDocument
 } from 'vscode-languageserver-textdocument';
-import { NonterminalKind, TerminalKind } from "@nomicfoundation/slang/kinds";
+import { EdgeLabel, NonterminalKind, TerminalKind } from "@nomicfoundation/slang/kinds";
 import assert = require('node:assert');
 import { Node, NodeType, NonterminalNode, TerminalNode } from '@nomicfoundation/slang/cst';
-import { cursor, text_index } from '@nomicfoundation/slang';
+import { cursor, parse_output, text_index } from '@nomicfoundation/slang';
+import { ContractDefinition } from '@nomicfoundation/slang/ast';
 import { Language } from '@nomicfoundation/slang/language';
 import { Query } from '@nomicfoundation/slang/query';
 import semver from 'semver';
@@ -59,7 +60,35 @@ export function getNatSpec(cursor: cursor.Cursor) {
 	return getLastPrecedingTriviaWithKinds(cursor, [TerminalKind.MultiLineNatSpecComment, TerminalKind.SingleLineNatSpecComment]);
 }
 
-interface TriviaTextWithRange {
+/**
+ * Gets the start of the comments directly above the cursor's node, or the start of its first non-trivia terminal if there are none.
+ * Comments that are separated from the node by a blank line are not included.
+ */
+export function getStartIncludingLeadingComments(cursor: cursor.Cursor): text_index.TextIndex {
+	const childCursor = cursor.spawn();
+
+	let commentStart = undefined;
+	let atLineStart = false;
+	while (childCursor.goToNextTerminal()) {
+		const node = childCursor.node();
+		assert(node instanceof TerminalNode);
+		if (!isTrivia(node)) {
+			return commentStart ?? childCursor.textRange.start;
+		} else if (node.kind === TerminalKind.EndOfLine) {
+			if (atLineStart) {
+				// a blank line separates the comments so far from the node
+				commentStart = undefined;
+			}
+			atLineStart = true;
+		} else if (node.kind !== TerminalKind.Whitespace) {
+			commentStart ??= childCursor.textRange.start;
+			atLineStart = false;
+		}
+	}
+	return commentStart ?? cursor.textRange.start;
+}
+
+export interface TriviaTextWithRange {
 	text: string;
 	textRange: text_index.TextRange;
 	kind: TerminalKind;
@@ -115,18 +144,42 @@ export function getTrimmedRange(cursor: cursor.Cursor) {
 	// move to the last terminal
 	goToLastTerminal(childCursor);
 
-	// move back until we find a non-whitespace terminal
-	while (childCursor.goToPrevious()) {
+	// move back until we find a non-whitespace terminal, starting from the last terminal itself
+	do {
 		if (childCursor.node().type === NodeType.Terminal && !isTrivia(childCursor.node())) {
 			end = childCursor.textRange.end;
 			break;
 		}
-	}
+	} while (childCursor.goToPrevious());
 
 	return { start, end };
 }
 
 // from https://github.com/NomicFoundation/hardhat-vscode/blob/8190465cf6a98b8a500393e36c4daa967495bc3b/server/src/parser/slangHelpers.ts#L24
+/**
+ * Gets the range of the name of the cursor's node, e.g. of a contract, variable, struct member or function, without its trivia.
+ */
+export function getNameRange(cursor: cursor.Cursor): text_index.TextRange | undefined {
+	return getChildRange(cursor, EdgeLabel.Name);
+}
+
+/**
+ * Gets the range of the child of the cursor's node with the given label, without its trivia.
+ */
+export function getChildRange(cursor: cursor.Cursor, label: EdgeLabel): text_index.TextRange | undefined {
+	const childCursor = cursor.spawn();
+	if (!childCursor.goToFirstChild()) {
+		return undefined;
+	}
+
+	do {
+		if (childCursor.label === label) {
+			return childCursor.node() instanceof NonterminalNode ? getTrimmedRange(childCursor) : childCursor.textRange;
+		}
+	} while (childCursor.goToNextSibling());
+	return undefined;
+}
+
 export function slangToVSCodeRange(doc: TextDocument, slangRange: text_index.TextRange): Range {
 	return {
 		start: doc.positionAt(slangRange.start.utf16),
@@ -134,12 +187,9 @@ export function slangToVSCodeRange(doc: TextDocument, slangRange: text_index.Tex
 	};
 }
 
-export function getHighestSupportedPragmaVersion(textDocument: TextDocument) {
+export function getHighestSupportedPragmaVersion(parseOutput: parse_output.ParseOutput) {
 	const allSolidityVersions = Language.supportedVersions();
 
-	const language = new Language(allSolidityVersions[allSolidityVersions.length - 1]);
-	const parseOutput = language.parse(NonterminalKind.SourceUnit, textDocument.getText());
-
 	const cursor = parseOutput.createTreeCursor();
 
 	const query = Query.parse("@versionExpressionSet [VersionExpressionSet]");
@@ -170,4 +220,74 @@ export function getHighestSupportedPragmaVersion(textDocument: TextDocument) {
 	}
 
 	return semver.maxSatisfying(possibleHighestVersions, '*');
-}
\ No newline at end of file
+}
+
+/**
+ * A version range from a `pragma solidity` directive.
+ */
+export type PragmaVersionRange = {
+	/**
+	 * The version range, e.g. `^0.8.20`.
+	 */
+	versionRange: string;
+	/**
+	 * The range of the version expressions in the document, without surrounding trivia.
+	 */
+	textRange: text_index.TextRange;
+}
+
+/**
+ * Gets the version ranges of the `pragma solidity` directives of a document. A compiler must satisfy all of them to compile the document.
+ */
+export function getPragmaVersionRanges(parseOutput: parse_output.ParseOutput): PragmaVersionRange[] {
+	const query = Query.parse("@versionExpressionSets [VersionExpressionSets]");
+	const matches = parseOutput.createTreeCursor().query([query]);
+
+	const ranges: PragmaVersionRange[] = [];
+	let match;
+	while ((match = matches.next())) {
+		const cursor = match.captures["versionExpressionSets"]?.[0];
+		const node = cursor?.node();
+		if (cursor !== undefined && node instanceof NonterminalNode) {
+			ranges.push({ versionRange: node.unparse().trim(), textRange: getTrimmedRange(cursor) });
+		}
+	}
+	return ranges;
+}
+
+/**
+ * Returns true if the text range contains the given UTF-16 offset
+ */
+export function textRangeContains(range: text_index.TextRange, offset: number) {
+	return range.start.utf16 <= offset && offset <= range.end.utf16;
+}
+
+/**
+ * Finds the first contract with the given name
+ * @returns a cursor pointing to the ContractDefinition, or undefined if it was not found
+ */
+export function findContractCursor(parseOutput: parse_output.ParseOutput, contractName: string): cursor.Cursor | undefined {
+	const cursor = parseOutput.createTreeCursor();
+	while (cursor.goToNextNonterminalWithKind(NonterminalKind.ContractDefinition)) {
+		const contractDefNode = cursor.node();
+		assert(contractDefNode instanceof NonterminalNode);
+		if (new ContractDefinition(contractDefNode).name.text === contractName) {
+			return cursor.spawn();
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Gets the text index after the given text, starting from the given text index.
+ */
+export function advanceTextIndex(index: text_index.TextIndex, text: string): text_index.TextIndex {
+	const lines = text.split('\n');
+	const lastLine = lines[lines.length - 1];
+	return {
+		utf8: index.utf8 + Buffer.byteLength(text, 'utf8'),
+		utf16: index.utf16 + text.length,
+		line: index.line + lines.length - 1,
+		column: (lines.length > 1 ? 0 : index.column) + [...lastLine].length,
+	};
+}
@@ -0,0 +1,130 @@
+import { Diagnostic, Hover, MarkupKind } from 'vscode-languageserver/node';
+import { Position, TextDocument } from 'vscode-languageserver-textdocument';
+import { NonterminalKind, TerminalKind } from "@nomicfoundation/slang/kinds";
+import assert = require('node:assert');
+import { NonterminalNode } from '@nomicfoundation/slang/cst';
+import { ContractDefinition, StateVariableDefinition } from '@nomicfoundation/slang/ast';
+import { cursor, text_index } from '@nomicfoundation/slang';
+import { calculateERC7201StorageLocationSteps } from './namespace';
+import { getLastPrecedingTriviaWithKinds, getNatSpec, getTrimmedRange, slangToVSCodeRange, textRangeContains } from './helpers/slang';
+import { getHashCommentNamespaceId, getStorageLocationAnnotationId, isStorageLocationConstantName, NAMESPACE_HASH_MISMATCH, NAMESPACE_ID_MISMATCH_HASH_COMMENT, NAMESPACE_STANDALONE_HASH_MISMATCH, validateNamespaceCommentAndHash, validateNamespaceStructAnnotation } from './diagnostics';
+import { getParsedDocument } from './documentCache';
+import { AnalysisContext } from './context';
+
+/**
+ * Gets a hover for an ERC7201 storage location annotation or storage location constant at the given position, showing the namespace id and computed storage slot.
+ */
+export async function getHover(textDocument: TextDocument, position: Position, context: AnalysisContext): Promise<Hover | undefined> {
+	const offset = textDocument.offsetAt(position);
+
+	const { parseOutput } = await getParsedDocument(textDocument, context);
+
+	const cursor = parseOutput.createTreeCursor();
+	while (cursor.goToNextNonterminalWithKind(NonterminalKind.ContractDefinition)) {
+		if (!textRangeContains(cursor.textRange, offset)) {
+			continue;
+		}
+
+		const contractDefNode = cursor.node();
+		assert(contractDefNode instanceof NonterminalNode);
+		const contractDef = new ContractDefinition(contractDefNode);
+
+		return getAnnotationHover(cursor, textDocument, offset) ?? await getLocationConstantHover(cursor, textDocument, context, contractDef, offset);
+	}
+	return undefined;
+}
+
+function getAnnotationHover(contractCursor: cursor.Cursor, textDocument: TextDocument, offset: number): Hover | undefined {
+	const structCursor = contractCursor.spawn();
+	while (structCursor.goToNextNonterminalWithKind(NonterminalKind.StructDefinition)) {
+		const natSpec = getNatSpec(structCursor);
+		if (natSpec === undefined || !textRangeContains(natSpec.textRange, offset)) {
+			continue;
+		}
+
+		const namespaceId = getStorageLocationAnnotationId(natSpec);
+		if (namespaceId !== undefined) {
+			return {
+				contents: {
+					kind: MarkupKind.Markdown,
+					value: printStorageLocationCalculation(namespaceId),
+				},
+				range: slangToVSCodeRange(textDocument, natSpec.textRange),
+			};
+		}
+	}
+	return undefined;
+}
+
+async function getLocationConstantHover(contractCursor: cursor.Cursor, textDocument: TextDocument, context: AnalysisContext, contractDef: ContractDefinition, offset: number): Promise<Hover | undefined> {
+	const stateVarCursor = contractCursor.spawn();
+	while (stateVarCursor.goToNextNonterminalWithKind(NonterminalKind.StateVariableDefinition)) {
+		const trimmedRange = getTrimmedRange(stateVarCursor);
+		if (!textRangeContains(trimmedRange, offset)) {
+			continue;
+		}
+
+		const stateVarDefNode = stateVarCursor.node();
+		assert(stateVarDefNode instanceof NonterminalNode);
+		const stateVariableDefinition = new StateVariableDefinition(stateVarDefNode);
+		if (!isStorageLocationConstantName(stateVariableDefinition.name.text)) {
+			return undefined;
+		}
+
+		// reuse the namespace diagnostics on the contract, but only keep the ones that apply to this constant or its comment
+		const diagnostics: Diagnostic[] = [];
+		const foundSingleNamespace = await validateNamespaceStructAnnotation(contractCursor, textDocument, context, contractDef, []);
+		if (foundSingleNamespace !== undefined) {
+			await validateNamespaceCommentAndHash(foundSingleNamespace.namespaceId, contractCursor, textDocument, contractDef, diagnostics);
+		}
+		const constantDiagnostics = diagnostics.filter(diagnostic =>
+			[NAMESPACE_ID_MISMATCH_HASH_COMMENT, NAMESPACE_HASH_MISMATCH, NAMESPACE_STANDALONE_HASH_MISMATCH].includes(String(diagnostic.code)) &&
+			isWithin(textDocument, diagnostic, stateVarCursor.textRange)
+		);
+
+		const comment = getLastPrecedingTriviaWithKinds(stateVarCursor, [TerminalKind.SingleLineComment, TerminalKind.MultiLineComment]);
+		const namespaceId = foundSingleNamespace?.namespaceId ?? (comment !== undefined ? getHashCommentNamespaceId(comment.text) : undefined);
+
+		const lines: string[] = [];
+		if (namespaceId !== undefined) {
+			lines.push(printStorageLocationCalculation(namespaceId));
+		} else {
+			lines.push(`**ERC-7201 storage location constant** \`${stateVariableDefinition.name.text}\``, '', 'No namespace annotation found for this contract.');
+		}
+
+		if (foundSingleNamespace !== undefined) {
+			lines.push('');
+			if (constantDiagnostics.length === 0) {
+				lines.push(`Constant matches the annotation \`erc7201:${foundSingleNamespace.namespaceId}\`.`);
+			} else {
+				for (const diagnostic of constantDiagnostics) {
+					lines.push(`- ${diagnostic.message}`);
+				}
+			}
+		}
+
+		return {
+			contents: {
+				kind: MarkupKind.Markdown,
+				value: lines.join('\n'),
+			},
+			range: slangToVSCodeRange(textDocument, trimmedRange),
+		};
+	}
+	return undefined;
+}
+
+function isWithin(textDocument: TextDocument, diagnostic: Diagnostic, textRange: text_index.TextRange) {
+	return textDocument.offsetAt(diagnostic.range.start) >= textRange.start.utf16 && textDocument.offsetAt(diagnostic.range.end) <= textRange.end.utf16;
+}
+
+function printStorageLocationCalculation(namespaceId: string) {
+	const calculation = calculateERC7201StorageLocationSteps(namespaceId);
+	return `\
+**ERC-7201 namespace** \`${calculation.namespaceId}\`
+
+| | |
+|---|---|
+| \`keccak256(id) - 1\` | \`${calculation.idHashMinusOne}\` |
+| Storage slot | \`${calculation.location}\` |`;
+}
@@ -0,0 +1,238 @@
+import { Range, TextDocument } from 'vscode-languageserver-textdocument';
+import { NonterminalKind, TerminalKind } from "@nomicfoundation/slang/kinds";
+import assert = require('node:assert');
+import { NonterminalNode, TerminalNode } from '@nomicfoundation/slang/cst';
+import { StateVariableDefinition, StructDefinition, StructMember } from '@nomicfoundation/slang/ast';
+import { cursor } from '@nomicfoundation/slang';
+import { getNatSpec, getTrimmedRange, slangToVSCodeRange } from './helpers/slang';
+import { getStorageLocationAnnotationId } from './diagnostics';
+
+export type StorageItem = {
+	name: string;
+	typeName: string;
+	range: Range;
+}
+
+export type NamespaceLayout = {
+	namespaceId: string;
+	structName: string;
+	fields: StorageItem[];
+	range: Range;
+}
+
+export type StorageLayout = {
+	variables: StorageItem[];
+	namespaces: NamespaceLayout[];
+}
+
+export type StorageLayoutChangeKind = 'deleted' | 'reordered' | 'retyped' | 'renamed' | 'inserted' | 'namespaceDeleted';
+
+export type StorageLayoutChange = {
+	kind: StorageLayoutChangeKind;
+	/**
+	 * The name of the variable or field, or the namespace id if a namespace was deleted.
+	 */
+	name: string;
+	/**
+	 * The namespace id, if the change is for a field in a namespaced struct.
+	 */
+	namespaceId?: string;
+	message: string;
+	/**
+	 * The range in the updated contract, if the changed item still exists there.
+	 */
+	range?: Range;
+}
+
+/**
+ * Extracts the storage layout of a contract from its CST, including plain state variables (excluding constants and immutables)
+ * and the fields of structs annotated with `@custom:storage-location erc7201:<id>`.
+ *
+ * @param contractCursor a cursor pointing to a ContractDefinition
+ */
+export function extractStorageLayout(contractCursor: cursor.Cursor, textDocument: TextDocument): StorageLayout {
+	const layout: StorageLayout = {
+		variables: [],
+		namespaces: [],
+	};
+
+	const stateVarCursor = contractCursor.spawn();
+	while (stateVarCursor.goToNextNonterminalWithKind(NonterminalKind.StateVariableDefinition)) {
+		const stateVarDefNode = stateVarCursor.node();
+		assert(stateVarDefNode instanceof NonterminalNode);
+		const stateVar = new StateVariableDefinition(stateVarDefNode);
+
+		const isConstantOrImmutable = stateVar.attributes.items.some(attribute => attribute.variant instanceof TerminalNode &&
+			(attribute.variant.kind === TerminalKind.ImmutableKeyword || attribute.variant.kind === TerminalKind.ConstantKeyword));
+		if (!isConstantOrImmutable) {
+			layout.variables.push({
+				name: stateVar.name.text,
+				typeName: normalizeTypeName(stateVar.typeName.cst.unparse()),
+				range: slangToVSCodeRange(textDocument, getTrimmedRange(stateVarCursor)),
+			});
+		}
+	}
+
+	const structCursor = contractCursor.spawn();
+	while (structCursor.goToNextNonterminalWithKind(NonterminalKind.StructDefinition)) {
+		const natSpec = getNatSpec(structCursor);
+		const namespaceId = natSpec !== undefined ? getStorageLocationAnnotationId(natSpec) : undefined;
+		if (namespaceId === undefined) {
+			continue;
+		}
+
+		const structDefNode = structCursor.node();
+		assert(structDefNode instanceof NonterminalNode);
+		const structDef = new StructDefinition(structDefNode);
+
+		const fields: StorageItem[] = [];
+		const memberCursor = structCursor.spawn();
+		while (memberCursor.goToNextNonterminalWithKind(NonterminalKind.StructMember)) {
+			const memberNode = memberCursor.node();
+			assert(memberNode instanceof NonterminalNode);
+			const member = new StructMember(memberNode);
+
+			fields.push({
+				name: member.name.text,
+				typeName: normalizeTypeName(member.typeName.cst.unparse()),
+				range: slangToVSCodeRange(textDocument, getTrimmedRange(memberCursor)),
+			});
+		}
+
+		layout.namespaces.push({
+			namespaceId,
+			structName: structDef.name.text,
+			fields,
+			range: slangToVSCodeRange(textDocument, natSpec!.textRange),
+		});
+	}
+
+	return layout;
+}
+
+/**
+ * Combines the storage layouts of the contracts in a linearization, which lists the most derived contract first.
+ * Solidity stores the variables of the most base contract first.
+ *
+ * @param range if set, replaces the ranges of the items of all contracts but the first, since those are declared elsewhere
+ */
+export function combineStorageLayouts(linearizedLayouts: StorageLayout[], range?: Range): StorageLayout {
+	const layouts = linearizedLayouts.map((layout, i) => i === 0 || range === undefined ? layout : {
+		variables: layout.variables.map(variable => ({ ...variable, range })),
+		namespaces: layout.namespaces.map(namespace => ({ ...namespace, range, fields: namespace.fields.map(field => ({ ...field, range })) })),
+	}).reverse();
+
+	return {
+		variables: layouts.flatMap(layout => layout.variables),
+		namespaces: layouts.flatMap(layout => layout.namespaces),
+	};
+}
+
+/**
+ * Normalizes a type name so that equivalent spellings compare equal, e.g. `uint` and `uint256`, or `address payable` and `address`.
+ * Comments in the leading trivia of the type are removed.
+ */
+function normalizeTypeName(typeName: string) {
+	return typeName
+		.replace(/\/\/.*$|\/\*[\s\S]*?\*\//gm, '')
+		.trim()
+		.replace(/\s+/g, ' ')
+		.replace(/\s*([()[\],])\s*/g, '$1')
+		.replace(/\b(u?int)\b/g, '$1256')
+		.replace(/\baddress payable\b/g, 'address');
+}
+
+/**
+ * Compares the storage layout of an updated contract against the layout of the original contract that it upgrades from,
+ * and returns the changes that are not upgrade safe.
+ */
+export function compareStorageLayouts(original: StorageLayout, updated: StorageLayout): StorageLayoutChange[] {
+	const changes = compareStorageItems(original.variables, updated.variables, 'variable');
+
+	for (const originalNamespace of original.namespaces) {
+		const updatedNamespace = updated.namespaces.find(namespace => namespace.namespaceId === originalNamespace.namespaceId);
+		if (updatedNamespace === undefined) {
+			changes.push({
+				kind: 'namespaceDeleted',
+				name: originalNamespace.namespaceId,
+				message: `Deleted namespace \`erc7201:${originalNamespace.namespaceId}\``,
+			});
+			continue;
+		}
+
+		const fieldChanges = compareStorageItems(originalNamespace.fields, updatedNamespace.fields, 'field');
+		for (const fieldChange of fieldChanges) {
+			fieldChange.namespaceId = originalNamespace.namespaceId;
+			if (fieldChange.range === undefined) {
+				fieldChange.range = updatedNamespace.range;
+			}
+		}
+		changes.push(...fieldChanges);
+	}
+
+	return changes;
+}
+
+/**
+ * Compares storage items by position, since the position of a variable or field determines its slot.
+ * An item whose name and type both changed at the same position is reported as inserted, and the original item as deleted.
+ * Items after an inserted item are compared with the original items they were shifted from, so that only the insertion is reported.
+ */
+export function compareStorageItems(original: StorageItem[], updated: StorageItem[], itemName: 'variable' | 'field'): StorageLayoutChange[] {
+	const changes: StorageLayoutChange[] = [];
+	const renamed: string[] = [];
+	let shift = 0;
+
+	for (let i = 0; i < updated.length && i - shift < original.length; i++) {
+		const updatedItem = updated[i];
+		const originalItem = original[i - shift];
+
+		if (updatedItem.name === originalItem.name) {
+			if (updatedItem.typeName !== originalItem.typeName) {
+				changes.push({
+					kind: 'retyped',
+					name: updatedItem.name,
+					message: `Changed type of ${itemName} \`${updatedItem.name}\` from \`${originalItem.typeName}\` to \`${updatedItem.typeName}\``,
+					range: updatedItem.range,
+				});
+			}
+		} else if (original.some(item => item.name === updatedItem.name)) {
+			changes.push({
+				kind: 'reordered',
+				name: updatedItem.name,
+				message: `Reordered ${itemName} \`${updatedItem.name}\``,
+				range: updatedItem.range,
+			});
+		} else if (!updated.some(item => item.name === originalItem.name) && updatedItem.typeName === originalItem.typeName) {
+			renamed.push(originalItem.name);
+			changes.push({
+				kind: 'renamed',
+				name: updatedItem.name,
+				message: `Renamed ${itemName} \`${originalItem.name}\` to \`${updatedItem.name}\``,
+				range: updatedItem.range,
+			});
+		} else {
+			if (updated.some(item => item.name === originalItem.name)) {
+				shift++;
+			}
+			changes.push({
+				kind: 'inserted',
+				name: updatedItem.name,
+				message: `Inserted ${itemName} \`${updatedItem.name}\` before the end of the original layout. New ${itemName}s must only be appended at the end.`,
+				range: updatedItem.range,
+			});
+		}
+	}
+
+	for (const originalItem of original) {
+		if (!renamed.includes(originalItem.name) && !updated.some(item => item.name === originalItem.name)) {
+			changes.push({
+				kind: 'deleted',
+				name: originalItem.name,
+				message: `Deleted ${itemName} \`${originalItem.name}\``,
+			});
+		}
+	}
+
+	return changes;
+}
@@ -12,67 +12,161 @@ export type Variable = {
 	name: string;
 	range: Range;
 	publicGetter?: PublicGetter;
+	initialValue?: string;
 }
 
 export type PublicGetter = {
-	typeName: string;
+	/** the types of the getter's parameters, one for each mapping key and array index */
+	parameterTypes: string[];
+	returnType: string;
 }
 
 export function getNamespaceId(namespacePrefix: string | undefined, contractName: string) {
 	return `${namespacePrefix ? namespacePrefix + '.' : ''}${contractName}`;
 }
 
+/**
+ * Controls the names, visibility, comment style and indentation of generated namespace code.
+ *
+ * Name patterns can contain placeholders: `{contractName}` in all of them, and `{structName}` in the location constant and getter names.
+ */
+export type NamespaceTemplate = {
+	structName: string;
+	locationConstantName: string;
+	getterName: string;
+	storageVariableName: string;
+	getterVisibility: 'private' | 'internal';
+	commentStyle: 'line' | 'block';
+	indent: string;
+}
+
+export const DEFAULT_NAMESPACE_TEMPLATE: NamespaceTemplate = {
+	structName: '{contractName}Storage',
+	locationConstantName: '{structName}Location',
+	getterName: '_get{structName}',
+	storageVariableName: '$',
+	getterVisibility: 'private',
+	commentStyle: 'line',
+	indent: '    ',
+};
+
+/**
+ * The names used in a contract's namespace, with the placeholders of a template replaced.
+ */
+export type NamespaceNames = {
+	structName: string;
+	locationConstantName: string;
+	getterName: string;
+	storageVariableName: string;
+}
+
+export function getNamespaceNames(template: NamespaceTemplate, contractName: string): NamespaceNames {
+	const structName = template.structName.replace(/\{contractName\}/g, contractName);
+	const expand = (pattern: string) => pattern.replace(/\{contractName\}/g, contractName).replace(/\{structName\}/g, structName);
+	return {
+		structName,
+		locationConstantName: expand(template.locationConstantName),
+		getterName: expand(template.getterName),
+		storageVariableName: template.storageVariableName,
+	};
+}
+
 /**
  * Prints the reference ERC7201 template for a given namespace
  */
-export function printNamespaceTemplate(namespace: Namespace, indent = "    ") {
+export function printNamespaceTemplate(namespace: Namespace, template: NamespaceTemplate = DEFAULT_NAMESPACE_TEMPLATE) {
+	const indent = template.indent;
 	const namespaceId = getNamespaceId(namespace.prefix, namespace.contractName);
-	const structName = toStorageStructName(namespace.contractName);
-	const locationName = `${structName}Location`;
+	const { structName, locationConstantName, getterName, storageVariableName } = getNamespaceNames(template, namespace.contractName);
 	const rootLocation = calculateERC7201StorageLocation(namespaceId);
 
-	const publicGetters = `${namespace.variables?.map(variable => variable.publicGetter ? printPublicGetter(variable.name, variable.publicGetter.typeName, structName) : undefined).join(`\n${indent}`)}`;
+	const publicGetters = (namespace.variables ?? []).map(variable => variable.publicGetter ? `\n\n${indent}${printPublicGetter(variable.name, variable.publicGetter, namespace.contractName, template)}` : '').join('');
 
 	const namespaceStructContent = `\
-/// @custom:storage-location erc7201:${namespaceId}
+${printNatSpec([`@custom:storage-location erc7201:${namespaceId}`], template)}
 ${indent}struct ${structName} {
-${namespace.variables?.map(variable => `${indent}${indent}${variable.content}`).join(`\n`)}
+${namespace.variables?.map(variable => indentLines(variable.content, `${indent}${indent}`)).join(`\n`)}
 ${indent}}
 
 ${indent}// keccak256(abi.encode(uint256(keccak256("${namespaceId}")) - 1)) & ~bytes32(uint256(0xff))
-${indent}bytes32 private constant ${locationName} = ${rootLocation};
+${indent}bytes32 private constant ${locationConstantName} = ${rootLocation};
 
-${indent}function _get${structName}() private pure returns (${structName} storage $) {
+${indent}${printNatSpec([`@dev Returns the storage struct of the \`erc7201:${namespaceId}\` namespace.`], template)}
+${indent}function ${getterName}() ${template.getterVisibility} pure returns (${structName} storage ${storageVariableName}) {
 ${indent}${indent}assembly {
-${indent}${indent}${indent}$.slot := ${locationName}
+${indent}${indent}${indent}${storageVariableName}.slot := ${locationConstantName}
 ${indent}${indent}}
-${indent}}
-${publicGetters}
-`;
+${indent}}${publicGetters}`;
 
 	return namespaceStructContent;
 }
 
-export function toStorageStructName(contractName: string) {
-	return `${contractName}Storage`;
+/**
+ * Indents each line of the text, replacing its original indentation. Continuation lines of block comments are aligned with their first line.
+ */
+export function indentLines(text: string, indent: string) {
+	return text.split('\n').map(line => {
+		const trimmed = line.trim();
+		return `${indent}${trimmed.startsWith('*') ? ' ' : ''}${trimmed}`;
+	}).join('\n');
+}
+
+/**
+ * Prints a NatSpec comment with the given lines, without indenting the first line.
+ */
+function printNatSpec(lines: string[], template: NamespaceTemplate) {
+	if (template.commentStyle === 'block') {
+		return lines.length === 1 ? `/** ${lines[0]} */` : `/**\n${lines.map(line => `${template.indent} * ${line}\n`).join('')}${template.indent} */`;
+	} else {
+		return lines.map(line => `/// ${line}`).join(`\n${template.indent}`);
+	}
 }
 
-export function printPublicGetter(name: string, typeName: string, storageStructName: string, indent = "    ") {
+/**
+ * Prints the statement that gets the namespace's storage struct in a function body, e.g. `XStorage storage $ = _getXStorage();`
+ */
+export function printStorageGetterStatement(contractName: string, template: NamespaceTemplate = DEFAULT_NAMESPACE_TEMPLATE) {
+	const { structName, getterName, storageVariableName } = getNamespaceNames(template, contractName);
+	return `${structName} storage ${storageVariableName} = ${getterName}();`;
+}
+
+/**
+ * Prints a getter with the signature of the getter that Solidity generates for a public state variable, reading the variable from the namespace.
+ * The first line is not indented.
+ */
+export function printPublicGetter(name: string, getter: PublicGetter, contractName: string, template: NamespaceTemplate = DEFAULT_NAMESPACE_TEMPLATE) {
+	const indent = template.indent;
+	const { storageVariableName } = getNamespaceNames(template, contractName);
+	const parameters = getter.parameterTypes.map((parameterType, i) => `${parameterType} arg${i}`).join(', ');
+	const accessors = getter.parameterTypes.map((_, i) => `[arg${i}]`).join('');
 	return `\
-function ${name}() public view returns (${typeName}) {
-${indent}${indent}${storageStructName} storage $ = _get${storageStructName}();
-${indent}${indent}return $.${name};
-${indent}}
-`;
-};
+function ${name}(${parameters}) public view returns (${getter.returnType}) {
+${indent}${indent}${printStorageGetterStatement(contractName, template)}
+${indent}${indent}return ${storageVariableName}.${name}${accessors};
+${indent}}`;
+}
+
+export type ERC7201StorageLocationCalculation = {
+	namespaceId: string;
+	idHashMinusOne: string;
+	location: string;
+}
 
 /**
  * Returns the ERC7201 storage location hash for a given namespace id
  */
 export function calculateERC7201StorageLocation(id: string): string {
+	return calculateERC7201StorageLocationSteps(id).location;
+}
+
+/**
+ * Returns the intermediate `keccak256(id) - 1` value along with the ERC7201 storage location hash for a given namespace id
+ */
+export function calculateERC7201StorageLocationSteps(id: string): ERC7201StorageLocationCalculation {
 	const firstHash = keccak256(Buffer.from(id));
 	const minusOne = BigInt('0x' + firstHash.toString('hex')) - 1n;
-	const minusOneBuffer = Buffer.from(minusOne.toString(16), 'hex');
+	const minusOneHex = minusOne.toString(16).padStart(64, '0');
+	const minusOneBuffer = Buffer.from(minusOneHex, 'hex');
 
 	const secondHash = keccak256(minusOneBuffer);
 	
@@ -81,5 +175,9 @@ export function calculateERC7201StorageLocation(id: string): string {
 
 	const padded = masked.toString(16).padStart(64, '0');
 
-	return '0x' + padded;
+	return {
+		namespaceId: id,
+		idHashMinusOne: '0x' + minusOneHex,
+		location: '0x' + padded,
+	};
 }
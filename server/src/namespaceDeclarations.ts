@@ -0,0 +1,210 @@
+import { Range, TextDocument } from 'vscode-languageserver-textdocument';
+import { EdgeLabel, NonterminalKind, TerminalKind } from "@nomicfoundation/slang/kinds";
+import assert = require('node:assert');
+import { NonterminalNode, TerminalNode } from '@nomicfoundation/slang/cst';
+import { FunctionDefinition, StateVariableDefinition } from '@nomicfoundation/slang/ast';
+import { cursor } from '@nomicfoundation/slang';
+import { calculateERC7201StorageLocation } from './namespace';
+import { getChildRange, getLastPrecedingTriviaWithKinds, getNameRange, getNatSpec, getTrimmedRange, slangToVSCodeRange } from './helpers/slang';
+import { getHashCommentNamespace, getStorageLocationAnnotation, isStorageLocationConstantName } from './diagnostics';
+
+/**
+ * A declaration in a contract, such as a struct field, constant or function.
+ */
+export type Declaration = {
+	name: string;
+	/**
+	 * The type of a variable or field, or the return parameters of a function.
+	 */
+	typeName?: string;
+	range: Range;
+	nameRange: Range;
+}
+
+export type LocationConstant = Declaration & {
+	/**
+	 * The range of the constant's value.
+	 */
+	valueRange?: Range;
+	/**
+	 * The range of the namespace id in the hash comment above the constant, if it has one.
+	 */
+	hashCommentIdRange?: Range;
+}
+
+/**
+ * An ERC7201 namespace declared in a contract: the struct annotated with `@custom:storage-location erc7201:<id>`,
+ * and the storage location constant and getter function that belong to it, if they can be found.
+ */
+export type NamespaceDeclaration = {
+	namespaceId: string;
+	location: string;
+	/**
+	 * The range of the NatSpec comment with the annotation.
+	 */
+	natSpecRange: Range;
+	/**
+	 * The range of the namespace id in the annotation.
+	 */
+	idRange: Range;
+	struct: Declaration;
+	fields: Declaration[];
+	locationConstant?: LocationConstant;
+	getter?: Declaration;
+}
+
+export type StateVariableDeclaration = Declaration & {
+	isConstant: boolean;
+	isImmutable: boolean;
+}
+
+type StateVariable = StateVariableDeclaration & {
+	value?: string;
+	valueRange?: Range;
+	hashCommentNamespaceId?: string;
+	hashCommentIdRange?: Range;
+}
+
+/**
+ * Gets the namespaces declared in a contract.
+ *
+ * @param contractCursor a cursor pointing to a ContractDefinition
+ */
+export function getNamespaceDeclarations(contractCursor: cursor.Cursor, textDocument: TextDocument): NamespaceDeclaration[] {
+	const namespaces: NamespaceDeclaration[] = [];
+
+	const structCursor = contractCursor.spawn();
+	while (structCursor.goToNextNonterminalWithKind(NonterminalKind.StructDefinition)) {
+		const natSpec = getNatSpec(structCursor);
+		const annotation = natSpec !== undefined ? getStorageLocationAnnotation(natSpec) : undefined;
+		if (annotation === undefined) {
+			continue;
+		}
+
+		const fields: Declaration[] = [];
+		const memberCursor = structCursor.spawn();
+		while (memberCursor.goToNextNonterminalWithKind(NonterminalKind.StructMember)) {
+			fields.push(getDeclaration(memberCursor, textDocument, getTypeNameText(memberCursor, textDocument)));
+		}
+
+		namespaces.push({
+			namespaceId: annotation.namespaceId,
+			location: calculateERC7201StorageLocation(annotation.namespaceId),
+			natSpecRange: slangToVSCodeRange(textDocument, natSpec!.textRange),
+			idRange: slangToVSCodeRange(textDocument, annotation.textRange),
+			struct: getDeclaration(structCursor, textDocument),
+			fields,
+		});
+	}
+
+	const constants = getStateVariables(contractCursor, textDocument).filter(stateVariable => stateVariable.isConstant);
+	for (const namespace of namespaces) {
+		const constant = findLocationConstant(namespace, namespaces.length, constants);
+		if (constant !== undefined) {
+			namespace.locationConstant = {
+				name: constant.name,
+				typeName: constant.typeName,
+				range: constant.range,
+				nameRange: constant.nameRange,
+				valueRange: constant.valueRange,
+				hashCommentIdRange: constant.hashCommentIdRange,
+			};
+		}
+		namespace.getter = findStorageGetter(contractCursor, textDocument, namespace.struct.name);
+	}
+
+	return namespaces;
+}
+
+/**
+ * Gets the text of the first type name under the cursor, without the comments before it.
+ */
+export function getTypeNameText(cursor: cursor.Cursor, textDocument: TextDocument) {
+	const typeNameCursor = cursor.spawn();
+	typeNameCursor.goToNextNonterminalWithKind(NonterminalKind.TypeName);
+	return normalizeWhitespace(textDocument.getText(slangToVSCodeRange(textDocument, getTrimmedRange(typeNameCursor))));
+}
+
+function getDeclaration(cursor: cursor.Cursor, textDocument: TextDocument, typeName?: string): Declaration {
+	const nameRange = getNameRange(cursor);
+	assert(nameRange !== undefined);
+	return {
+		name: textDocument.getText(slangToVSCodeRange(textDocument, nameRange)),
+		typeName,
+		range: slangToVSCodeRange(textDocument, getTrimmedRange(cursor)),
+		nameRange: slangToVSCodeRange(textDocument, nameRange),
+	};
+}
+
+/**
+ * Gets the state variables declared in a contract, including constants and immutable variables.
+ *
+ * @param contractCursor a cursor pointing to a ContractDefinition
+ */
+export function getStateVariableDeclarations(contractCursor: cursor.Cursor, textDocument: TextDocument): StateVariableDeclaration[] {
+	return getStateVariables(contractCursor, textDocument);
+}
+
+function getStateVariables(contractCursor: cursor.Cursor, textDocument: TextDocument): StateVariable[] {
+	const stateVariables: StateVariable[] = [];
+
+	const stateVarCursor = contractCursor.spawn();
+	while (stateVarCursor.goToNextNonterminalWithKind(NonterminalKind.StateVariableDefinition)) {
+		const stateVarDefNode = stateVarCursor.node();
+		assert(stateVarDefNode instanceof NonterminalNode);
+		const stateVar = new StateVariableDefinition(stateVarDefNode);
+
+		const comment = getLastPrecedingTriviaWithKinds(stateVarCursor, [TerminalKind.SingleLineComment, TerminalKind.MultiLineComment]);
+		const hashComment = comment !== undefined ? getHashCommentNamespace(comment) : undefined;
+
+		const valueCursor = stateVarCursor.spawn();
+		const valueRange = valueCursor.goToNextNonterminalWithKind(NonterminalKind.StateVariableDefinitionValue) ? getChildRange(valueCursor, EdgeLabel.Value) : undefined;
+
+		const hasAttribute = (kind: TerminalKind) => stateVar.attributes.items.some(attribute => attribute.variant instanceof TerminalNode && attribute.variant.kind === kind);
+
+		stateVariables.push({
+			...getDeclaration(stateVarCursor, textDocument, getTypeNameText(stateVarCursor, textDocument)),
+			isConstant: hasAttribute(TerminalKind.ConstantKeyword),
+			isImmutable: hasAttribute(TerminalKind.ImmutableKeyword),
+			value: stateVar.value?.value.cst.unparse().trim(),
+			valueRange: valueRange !== undefined ? slangToVSCodeRange(textDocument, valueRange) : undefined,
+			hashCommentNamespaceId: hashComment?.namespaceId,
+			hashCommentIdRange: hashComment !== undefined ? slangToVSCodeRange(textDocument, hashComment.textRange) : undefined,
+		});
+	}
+
+	return stateVariables;
+}
+
+/**
+ * Finds the storage location constant of a namespace: a constant whose value is the namespace's location or whose hash comment has its id,
+ * or if the contract has a single namespace, a constant that is named like a storage location constant.
+ */
+function findLocationConstant(namespace: NamespaceDeclaration, namespaceCount: number, constants: StateVariable[]): StateVariable | undefined {
+	return constants.find(constant =>
+		constant.value?.toLowerCase() === namespace.location.toLowerCase() ||
+		constant.hashCommentNamespaceId === namespace.namespaceId
+	) ?? (namespaceCount === 1 ? constants.find(constant => isStorageLocationConstantName(constant.name)) : undefined);
+}
+
+/**
+ * Finds the function that returns the storage struct of a namespace, e.g. `_getXStorage()`.
+ */
+function findStorageGetter(contractCursor: cursor.Cursor, textDocument: TextDocument, structName: string): Declaration | undefined {
+	const functionCursor = contractCursor.spawn();
+	while (functionCursor.goToNextNonterminalWithKind(NonterminalKind.FunctionDefinition)) {
+		const functionDefNode = functionCursor.node();
+		assert(functionDefNode instanceof NonterminalNode);
+		const functionDef = new FunctionDefinition(functionDefNode);
+
+		const returnParameters = functionDef.returns?.variables.parameters.items ?? [];
+		if (returnParameters.length === 1 && returnParameters[0].storageLocation !== undefined && normalizeWhitespace(returnParameters[0].typeName.cst.unparse()) === structName) {
+			return getDeclaration(functionCursor, textDocument, `returns (${normalizeWhitespace(functionDef.returns!.variables.parameters.cst.unparse())})`);
+		}
+	}
+	return undefined;
+}
+
+function normalizeWhitespace(text: string) {
+	return text.trim().replace(/\s+/g, ' ');
+}
@@ -0,0 +1,74 @@
+import { ArrayTypeName, IdentifierPath, StructDefinition, StructMember } from '@nomicfoundation/slang/ast';
+import { TypeDefinitions } from './storageSlots';
+
+/**
+ * A field of a namespace struct that is unsafe to keep in namespaced storage.
+ */
+export type NamespaceFieldIssue =
+	/**
+	 * The field is a struct, which cannot get new fields without shifting the fields after it.
+	 */
+	{ kind: 'nestedStruct', structName: string } |
+	/**
+	 * The field is a fixed-size array of structs, whose elements cannot get new fields without shifting the elements after them.
+	 */
+	{ kind: 'structArray', structName: string } |
+	/**
+	 * The field is named like a constant or immutable variable, which does not belong in storage.
+	 */
+	{ kind: 'constantLookalike' };
+
+/**
+ * Finds the reasons why a field of a namespace struct is unsafe to keep in namespaced storage.
+ *
+ * @param importedStructs the names of the structs defined in imported files, which are used for names that are not defined in the file itself
+ */
+export function getNamespaceFieldIssues(member: StructMember, definitions: TypeDefinitions, importedStructs: Set<string>): NamespaceFieldIssue[] {
+	const issues: NamespaceFieldIssue[] = [];
+	if (isConstantName(member.name.text)) {
+		issues.push({ kind: 'constantLookalike' });
+	}
+
+	const variant = member.typeName.variant;
+	if (variant instanceof IdentifierPath) {
+		const structName = getStructName(variant, definitions, importedStructs);
+		if (structName !== undefined) {
+			issues.push({ kind: 'nestedStruct', structName });
+		}
+	} else if (variant instanceof ArrayTypeName && variant.index !== undefined) {
+		const structName = getFixedArrayStructName(variant, definitions, importedStructs);
+		if (structName !== undefined) {
+			issues.push({ kind: 'structArray', structName });
+		}
+	}
+	return issues;
+}
+
+/**
+ * Returns true if the name follows the naming convention of constants and immutable variables, e.g. `MAX_SUPPLY`.
+ */
+function isConstantName(name: string) {
+	return name.length > 1 && /^[A-Z][A-Z0-9_]*$/.test(name);
+}
+
+function getStructName(identifierPath: IdentifierPath, definitions: TypeDefinitions, importedStructs: Set<string>): string | undefined {
+	const name = identifierPath.items[identifierPath.items.length - 1].text;
+	if (definitions.has(name)) {
+		return definitions.get(name) instanceof StructDefinition ? name : undefined;
+	}
+	return importedStructs.has(name) ? name : undefined;
+}
+
+/**
+ * Gets the name of the struct that a fixed-size array, or a fixed-size array of fixed-size arrays, contains.
+ * Dynamic arrays and mappings are not followed, since their elements are not stored among the fields of the namespace.
+ */
+function getFixedArrayStructName(arrayType: ArrayTypeName, definitions: TypeDefinitions, importedStructs: Set<string>): string | undefined {
+	const variant = arrayType.operand.variant;
+	if (variant instanceof IdentifierPath) {
+		return getStructName(variant, definitions, importedStructs);
+	} else if (variant instanceof ArrayTypeName && variant.index !== undefined) {
+		return getFixedArrayStructName(variant, definitions, importedStructs);
+	}
+	return undefined;
+}
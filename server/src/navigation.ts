@@ -0,0 +1,237 @@
+import { Location } from 'vscode-languageserver/node';
+import { Position, Range, TextDocument } from 'vscode-languageserver-textdocument';
+import { EdgeLabel, NonterminalKind, TerminalKind } from "@nomicfoundation/slang/kinds";
+import assert = require('node:assert');
+import { NonterminalNode, TerminalNode } from '@nomicfoundation/slang/cst';
+import { ContractDefinition, FunctionCallExpression, MemberAccessExpression, Parameter, VariableDeclarationStatement } from '@nomicfoundation/slang/ast';
+import { cursor } from '@nomicfoundation/slang';
+import { getChildRange, slangToVSCodeRange } from './helpers/slang';
+import { getNamespaceDeclarations, getTypeNameText, NamespaceDeclaration } from './namespaceDeclarations';
+import { getParsedDocument } from './documentCache';
+import { AnalysisContext } from './context';
+
+type OccurrenceKind = 'annotation' | 'hashComment' | 'constantDeclaration' | 'constantUse' | 'fieldDeclaration' | 'fieldAccess';
+
+/**
+ * An occurrence of a namespace or one of its fields in a document.
+ */
+export type Occurrence = {
+	/**
+	 * Identifies what the occurrence refers to: a namespace, which includes its location constant, or a field of a namespace.
+	 */
+	key: string;
+	kind: OccurrenceKind;
+	range: Range;
+	contractName: string;
+	namespace: NamespaceDeclaration;
+}
+
+/**
+ * Kinds of occurrences that declare what they refer to.
+ */
+const DECLARATION_KINDS: OccurrenceKind[] = ['annotation', 'fieldDeclaration'];
+
+/**
+ * Nonterminals that can declare storage pointers and access fields through them.
+ */
+const FUNCTION_KINDS = [
+	NonterminalKind.FunctionDefinition,
+	NonterminalKind.ModifierDefinition,
+	NonterminalKind.ConstructorDefinition,
+	NonterminalKind.FallbackFunctionDefinition,
+	NonterminalKind.ReceiveFunctionDefinition,
+];
+
+/**
+ * Gets the definition of the namespace field, location constant or namespace at the given position:
+ * - A field access through a storage pointer, e.g. `$.balance` or `_getXStorage().balance`, goes to the field in the namespace struct.
+ * - A use of the location constant goes to the constant.
+ * - The location constant and the id in its hash comment go to the id in the namespace's `@custom:storage-location` annotation.
+ */
+export async function getDefinition(textDocument: TextDocument, position: Position, context: AnalysisContext): Promise<Location | undefined> {
+	const occurrences = await getOccurrences(textDocument, context);
+	const occurrence = findOccurrenceAt(textDocument, occurrences, position);
+	if (occurrence === undefined) {
+		return undefined;
+	}
+
+	let definitionKind: OccurrenceKind;
+	switch (occurrence.kind) {
+		case 'fieldAccess':
+		case 'fieldDeclaration':
+			definitionKind = 'fieldDeclaration';
+			break;
+		case 'constantUse':
+			definitionKind = 'constantDeclaration';
+			break;
+		default:
+			definitionKind = 'annotation';
+	}
+
+	const definition = occurrences.find(other => other.key === occurrence.key && other.kind === definitionKind);
+	return definition !== undefined ? Location.create(textDocument.uri, definition.range) : undefined;
+}
+
+/**
+ * Gets the references to the namespace field, location constant or namespace at the given position, within the document.
+ * The references of a namespace and of its location constant are the same: the annotation, the hash comment, the constant and its uses.
+ */
+export async function getReferences(textDocument: TextDocument, position: Position, includeDeclaration: boolean, context: AnalysisContext): Promise<Location[]> {
+	const occurrences = await getOccurrences(textDocument, context);
+	const occurrence = findOccurrenceAt(textDocument, occurrences, position);
+	if (occurrence === undefined) {
+		return [];
+	}
+
+	return occurrences
+		.filter(other => other.key === occurrence.key && (includeDeclaration || !DECLARATION_KINDS.includes(other.kind)))
+		.map(other => Location.create(textDocument.uri, other.range));
+}
+
+/**
+ * Finds the occurrences of the namespaces and their fields in each contract of the document.
+ */
+export async function getOccurrences(textDocument: TextDocument, context: AnalysisContext): Promise<Occurrence[]> {
+	const { parseOutput } = await getParsedDocument(textDocument, context);
+
+	const occurrences: Occurrence[] = [];
+	const contractCursor = parseOutput.createTreeCursor();
+	while (contractCursor.goToNextNonterminalWithKind(NonterminalKind.ContractDefinition)) {
+		const contractDefNode = contractCursor.node();
+		assert(contractDefNode instanceof NonterminalNode);
+		const contractName = new ContractDefinition(contractDefNode).name.text;
+
+		const namespaces = getNamespaceDeclarations(contractCursor, textDocument);
+		for (const namespace of namespaces) {
+			const key = `${contractName}/${namespace.namespaceId}`;
+			occurrences.push({ key, kind: 'annotation', range: namespace.idRange, contractName, namespace });
+			for (const field of namespace.fields) {
+				occurrences.push({ key: `${key}/${field.name}`, kind: 'fieldDeclaration', range: field.nameRange, contractName, namespace });
+			}
+
+			const constant = namespace.locationConstant;
+			if (constant !== undefined) {
+				if (constant.hashCommentIdRange !== undefined) {
+					occurrences.push({ key, kind: 'hashComment', range: constant.hashCommentIdRange, contractName, namespace });
+				}
+				occurrences.push({ key, kind: 'constantDeclaration', range: constant.nameRange, contractName, namespace });
+				for (const range of findConstantUses(contractCursor, textDocument, constant.name, constant.nameRange)) {
+					occurrences.push({ key, kind: 'constantUse', range, contractName, namespace });
+				}
+			}
+		}
+
+		for (const access of findFieldAccesses(contractCursor, textDocument, namespaces)) {
+			occurrences.push({ key: `${contractName}/${access.namespace.namespaceId}/${access.fieldName}`, kind: 'fieldAccess', range: access.range, contractName, namespace: access.namespace });
+		}
+	}
+	return occurrences;
+}
+
+/**
+ * Finds the occurrence at a position, including a position right after its end, e.g. when the cursor is at the end of a name.
+ */
+export function findOccurrenceAt(textDocument: TextDocument, occurrences: Occurrence[], position: Position): Occurrence | undefined {
+	const offset = textDocument.offsetAt(position);
+	return occurrences.find(occurrence => textDocument.offsetAt(occurrence.range.start) <= offset && offset <= textDocument.offsetAt(occurrence.range.end));
+}
+
+/**
+ * Finds the uses of a constant in a contract, in Solidity and in assembly.
+ */
+function findConstantUses(contractCursor: cursor.Cursor, textDocument: TextDocument, name: string, declarationRange: Range): Range[] {
+	const uses: Range[] = [];
+
+	const identifierCursor = contractCursor.spawn();
+	while (identifierCursor.goToNextTerminalWithKinds([TerminalKind.Identifier, TerminalKind.YulIdentifier])) {
+		const node = identifierCursor.node();
+		assert(node instanceof TerminalNode);
+		if (node.text !== name) {
+			continue;
+		}
+
+		const range = slangToVSCodeRange(textDocument, identifierCursor.textRange);
+		if (textDocument.offsetAt(range.start) !== textDocument.offsetAt(declarationRange.start)) {
+			uses.push(range);
+		}
+	}
+	return uses;
+}
+
+type FieldAccess = {
+	namespace: NamespaceDeclaration;
+	fieldName: string;
+	range: Range;
+}
+
+/**
+ * Finds the accesses to fields of the namespaces in a contract, through a storage pointer such as `XStorage storage $ = _getXStorage()`,
+ * or directly on the result of the getter, e.g. `_getXStorage().x`.
+ */
+function findFieldAccesses(contractCursor: cursor.Cursor, textDocument: TextDocument, namespaces: NamespaceDeclaration[]): FieldAccess[] {
+	const accesses: FieldAccess[] = [];
+
+	const getters = new Map<string, NamespaceDeclaration>();
+	for (const namespace of namespaces) {
+		if (namespace.getter !== undefined) {
+			getters.set(namespace.getter.name, namespace);
+		}
+	}
+
+	const functionCursor = contractCursor.spawn();
+	while (functionCursor.goToNextNonterminalWithKinds(FUNCTION_KINDS)) {
+		const storagePointers = findStoragePointers(functionCursor, textDocument, namespaces);
+
+		const memberAccessCursor = functionCursor.spawn();
+		while (memberAccessCursor.goToNextNonterminalWithKind(NonterminalKind.MemberAccessExpression)) {
+			const memberAccessNode = memberAccessCursor.node();
+			assert(memberAccessNode instanceof NonterminalNode);
+			const memberAccess = new MemberAccessExpression(memberAccessNode);
+
+			const namespace = getAccessedNamespace(memberAccess, storagePointers, getters);
+			const fieldName = memberAccess.member.variant.text;
+			if (namespace === undefined || !namespace.fields.some(field => field.name === fieldName)) {
+				continue;
+			}
+
+			const memberRange = getChildRange(memberAccessCursor, EdgeLabel.Member);
+			assert(memberRange !== undefined);
+			accesses.push({ namespace, fieldName, range: slangToVSCodeRange(textDocument, memberRange) });
+		}
+	}
+	return accesses;
+}
+
+/**
+ * Finds the parameters and local variables of a function that are storage pointers to namespace structs, by name.
+ */
+function findStoragePointers(functionCursor: cursor.Cursor, textDocument: TextDocument, namespaces: NamespaceDeclaration[]): Map<string, NamespaceDeclaration> {
+	const storagePointers = new Map<string, NamespaceDeclaration>();
+
+	const declarationCursor = functionCursor.spawn();
+	while (declarationCursor.goToNextNonterminalWithKinds([NonterminalKind.Parameter, NonterminalKind.VariableDeclarationStatement])) {
+		const declarationNode = declarationCursor.node();
+		assert(declarationNode instanceof NonterminalNode);
+		const declaration = declarationNode.kind === NonterminalKind.Parameter ? new Parameter(declarationNode) : new VariableDeclarationStatement(declarationNode);
+		if (declaration.name === undefined || declaration.storageLocation?.variant.kind !== TerminalKind.StorageKeyword) {
+			continue;
+		}
+
+		const typeName = getTypeNameText(declarationCursor, textDocument);
+		const namespace = namespaces.find(namespace => namespace.struct.name === typeName);
+		if (namespace !== undefined) {
+			storagePointers.set(declaration.name.text, namespace);
+		}
+	}
+	return storagePointers;
+}
+
+function getAccessedNamespace(memberAccess: MemberAccessExpression, storagePointers: Map<string, NamespaceDeclaration>, getters: Map<string, NamespaceDeclaration>): NamespaceDeclaration | undefined {
+	const operand = memberAccess.operand.variant;
+	if (operand instanceof TerminalNode) {
+		return storagePointers.get(operand.text);
+	} else if (operand instanceof FunctionCallExpression && operand.operand.variant instanceof TerminalNode) {
+		return getters.get(operand.operand.variant.text);
+	}
+	return undefined;
+}
@@ -0,0 +1,71 @@
+import { FOUNDRY_CONFIG_FILE } from './foundry';
+import { HARDHAT_CONFIG_FILES } from './hardhat';
+
+import path from 'path';
+import { promises as fs } from 'fs';
+
+const PROJECT_CONFIG_FILES = [FOUNDRY_CONFIG_FILE, ...HARDHAT_CONFIG_FILES];
+
+/**
+ * The config file found in each directory, if any.
+ */
+const projectConfigCache: Map<string, Promise<string | undefined>> = new Map();
+
+/**
+ * Gets the workspace folder that contains a file. If workspace folders are nested, the innermost one is used.
+ */
+export function findWorkspaceFolder(filePath: string, workspaceFolders: string[]): string | undefined {
+	return workspaceFolders
+		.filter(folder => isInFolder(filePath, folder))
+		.sort((a, b) => b.length - a.length)[0];
+}
+
+/**
+ * Gets the folder of the project that contains a file, which is the nearest folder above the file that has a Foundry or Hardhat config.
+ * The search stops at the workspace folder that contains the file, so that each project in a monorepo uses its own config.
+ *
+ * @returns the project folder, or the workspace folder if there is no config in between. Undefined if neither is found.
+ */
+export async function getProjectFolder(filePath: string, workspaceFolders: string[]): Promise<string | undefined> {
+	const workspaceFolder = findWorkspaceFolder(filePath, workspaceFolders);
+
+	let directory = path.dirname(filePath);
+	while (!await hasProjectConfig(directory)) {
+		const parent = path.dirname(directory);
+		if (directory === workspaceFolder || parent === directory) {
+			return workspaceFolder;
+		}
+		directory = parent;
+	}
+	return directory;
+}
+
+export function clearProjectConfigCache() {
+	projectConfigCache.clear();
+}
+
+function hasProjectConfig(directory: string): Promise<boolean> {
+	let result = projectConfigCache.get(directory);
+	if (!result) {
+		result = findProjectConfig(directory);
+		projectConfigCache.set(directory, result);
+	}
+	return result.then(configFile => configFile !== undefined);
+}
+
+async function findProjectConfig(directory: string): Promise<string | undefined> {
+	for (const configFile of PROJECT_CONFIG_FILES) {
+		try {
+			await fs.access(path.join(directory, configFile));
+			return configFile;
+		} catch (e: any) {
+			// try the next config file
+		}
+	}
+	return undefined;
+}
+
+function isInFolder(filePath: string, folder: string) {
+	const relative = path.relative(folder, filePath);
+	return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
@@ -1,33 +1,51 @@
 import { Diagnostic, CodeActionKind, CodeAction, WorkspaceEdit } from 'vscode-languageserver/node';
 import {
+	Position,
+	Range,
 	TextDocument,
 	TextEdit
 } from 'vscode-languageserver-textdocument';
 import { NonterminalKind, TerminalKind } from "@nomicfoundation/slang/kinds";
-import { Namespace, Variable, printNamespaceTemplate, getNamespaceId, printPublicGetter, toStorageStructName } from './namespace';
-import { Language } from '@nomicfoundation/slang/language';
+import { Namespace, Variable, indentLines, printNamespaceTemplate, getNamespaceId, printPublicGetter, getNamespaceNames, printStorageGetterStatement, NamespaceNames, NamespaceTemplate } from './namespace';
 import assert = require('node:assert');
 import { NonterminalNode, TerminalNode } from '@nomicfoundation/slang/cst';
-import { ContractDefinition } from '@nomicfoundation/slang/ast';
+import { ArrayTypeName, Block, ConstructorDefinition, ContractDefinition, FunctionCallExpression, FunctionDefinition, IdentifierPath, MappingType, ModifierInvocation, PositionalArgumentsDeclaration, StateVariableDefinition, Statement, StructDefinition, VariableDeclarationStatement } from '@nomicfoundation/slang/ast';
 import { cursor, text_index } from '@nomicfoundation/slang';
-import { slangToVSCodeRange } from './helpers/slang';
-import { inferSolidityVersion } from './solidityVersion';
-import { workspaceFolders } from './server';
+import { findContractCursor, getNatSpec, getTrimmedRange, isTrivia, slangToVSCodeRange } from './helpers/slang';
+import { getParsedDocument } from './documentCache';
+import { StorageGap } from './storageSlots';
+import { getCodeStyle, getNamespaceTemplate } from './settings';
+import { getLineIndent, normalizeLineEndings } from './helpers/formatting';
+import { AnalysisContext } from './context';
+import { getImmutableVariableNames, getStorageLocationAnnotationId, isDisableInitializersStatement, isImmutableAssignmentStatement } from './diagnostics';
+import { findStateVariableReferences, IdentifierReference } from './helpers/scope';
+import { FunctionMutabilities, getDeclaredMutability, getFunctionMutabilities, getRequiredMutability, maxMutability, StateMutability } from './helpers/mutability';
 
 /**
- * Gets a quick fix for moving all variables into a namespace.
+ * Gets a quick fix for moving a single variable into a namespace, creating the namespace if it does not exist yet.
+ * Only references to that variable are rewritten.
  */
-export async function getMoveAllVariablesToNamespaceQuickFix(fixesDiagnostics: Diagnostic[], title: string, prefix: string, contractName: string, variables: Variable[], textDocument: TextDocument): Promise<CodeAction | undefined> {
+export async function getMoveVariableToNamespaceQuickFix(fixesDiagnostics: Diagnostic[], title: string, prefix: string, contractName: string, variable: Variable, textDocument: TextDocument, context: AnalysisContext): Promise<CodeAction | undefined> {
+	return getMoveAllVariablesToNamespaceQuickFix(fixesDiagnostics, title, prefix, contractName, [variable], [], textDocument, context);
+}
+
+/**
+ * Gets a quick fix for moving all variables into a namespace. Storage gaps are removed, since namespaced storage does not need them.
+ */
+export async function getMoveAllVariablesToNamespaceQuickFix(fixesDiagnostics: Diagnostic[], title: string, prefix: string, contractName: string, variables: Variable[], storageGaps: StorageGap[], textDocument: TextDocument, context: AnalysisContext): Promise<CodeAction | undefined> {
 	let namespaceStructEndRange: text_index.TextRange | undefined = undefined;
 
-	const language = new Language(await inferSolidityVersion(textDocument, workspaceFolders));
-	const parseOutput = language.parse(NonterminalKind.SourceUnit, textDocument.getText());
+	const { language, parseOutput } = await getParsedDocument(textDocument, context);
+	const template = await getNamespaceTemplate(textDocument, context);
+	const codeStyle = getCodeStyle(textDocument, context);
+	const { storageVariableName } = getNamespaceNames(template, contractName);
 
 	const cursor = parseOutput.createTreeCursor();
 
 	let contractCursor;
 
 	const edits: TextEdit[] = [];
+	let mutabilityChanges: MutabilityChange[] = [];
 
 	while (cursor.goToNextNonterminalWithKind(NonterminalKind.ContractDefinition)) {
 		contractCursor = cursor.spawn();
@@ -38,10 +56,8 @@ export async function getMoveAllVariablesToNamespaceQuickFix(fixesDiagnostics: D
 
 		const parseContract = language.parse(NonterminalKind.ContractDefinition, cursorNode.unparse());
 		if (!parseContract.isValid) {
-			console.log("Contract has errors");
+			// skip contracts with syntax errors
 			continue;
-		} else {
-			console.log("Parsing contract: " + contractDef.name.text);
 		}
 
 		if (contractDef.name.text !== contractName) {
@@ -49,7 +65,13 @@ export async function getMoveAllVariablesToNamespaceQuickFix(fixesDiagnostics: D
 			continue;
 		} else {
 			namespaceStructEndRange = getNamespaceStructEndRange(contractCursor, prefix, contractName);
-			editNamespaceVariablesInFunctions(contractCursor, contractName, variables, textDocument, edits);
+			mutabilityChanges = editNamespaceVariablesInFunctions(contractCursor, contractName, variables, template, getFunctionMutabilities(parseOutput.createTreeCursor()), textDocument, edits);
+
+			// variables with initial values are declared without them in the namespace, so assign them in the initializer instead
+			const initialValueAssignments = variables.filter(variable => variable.initialValue !== undefined).map(variable => `${storageVariableName}.${variable.name} = ${variable.initialValue};`);
+			if (initialValueAssignments.length > 0) {
+				editInitializer(contractCursor, contractName, initialValueAssignments, printStorageGetterStatement(contractName, template), textDocument, edits, template.indent);
+			}
 
 			// only process the first contract that matches the contractName
 			break;
@@ -63,12 +85,21 @@ export async function getMoveAllVariablesToNamespaceQuickFix(fixesDiagnostics: D
 	if (namespaceStructEndRange === undefined) {
 		editNewNamespace(edits);
 	} else {
-		editExistingNamespace(edits, namespaceStructEndRange);
+		editExistingNamespace(edits, namespaceStructEndRange, template.indent);
+	}
+	for (const storageGap of storageGaps) {
+		edits.push({ range: storageGap.removalRange, newText: "" });
 	}
 
 	let workspaceEdit: WorkspaceEdit = {
-		changes: { [textDocument.uri]: [...edits] }
+		changes: { [textDocument.uri]: normalizeLineEndings(edits, codeStyle.eol) }
 	};
+	// warn about changes that affect the ABI, since callers may rely on the previous mutability
+	const abiChanges = mutabilityChanges.filter(change => change.externallyVisible);
+	if (abiChanges.length > 0) {
+		title += ` (changes mutability of ${abiChanges.map(change => `\`${change.definitionName}\` from ${change.from} to ${change.to}`).join(', ')})`;
+	}
+
 	let codeAction: CodeAction = {
 		title: title,
 		kind: CodeActionKind.QuickFix,
@@ -86,113 +117,755 @@ export async function getMoveAllVariablesToNamespaceQuickFix(fixesDiagnostics: D
 		};
 
 		// for a new namespace, replace the first variable with the namespace (including public getter functions), then delete the rest of the variables
+		const namespaceText = printNamespaceTemplate(namespace, template);
+		const firstVariableLines = getOwnLinesRange(textDocument, variables[0].range);
 		let insertVariableTextEdit: TextEdit = {
-			range: variables[0].range,
-			newText: printNamespaceTemplate(namespace),
+			range: firstVariableLines ?? variables[0].range,
+			newText: firstVariableLines !== undefined
+				? `${getLineIndent(textDocument, firstVariableLines.start.line)}${namespaceText}\n${isAdjacentLineBlank(firstVariableLines.end.line, 1, variables.slice(1)) ? '' : '\n'}`
+				: namespaceText,
 		};
 		edits.push(insertVariableTextEdit);
 
 		for (const variable of variables.slice(1)) {
 			let deleteVariableTextEdit: TextEdit = {
-				range: variable.range,
+				range: getOwnLinesRange(textDocument, variable.range) ?? variable.range,
 				newText: ""
 			};
 			edits.push(deleteVariableTextEdit);
 		}
 	}
 
-	function editExistingNamespace(edits: TextEdit[], structEndRange: text_index.TextRange, indent = "    ") {
+	/**
+	 * Returns true if the closest line in the given direction, skipping the lines of removed variables, is blank or opens or closes a block.
+	 */
+	function isAdjacentLineBlank(line: number, step: 1 | -1, removedVariables: Variable[]) {
+		const removedRanges = removedVariables.map(variable => getOwnLinesRange(textDocument, variable.range)).filter((range): range is Range => range !== undefined);
+		while (removedRanges.some(range => range.start.line <= line && line < range.end.line)) {
+			line += step;
+		}
+		const text = textDocument.getText({ start: { line, character: 0 }, end: { line: line + 1, character: 0 } }).trim();
+		return text.length === 0 || (step > 0 ? text.startsWith('}') : text.endsWith('{'));
+	}
+
+	function editExistingNamespace(edits: TextEdit[], structEndRange: text_index.TextRange, indent: string) {
 		// for an existing namespace, remove all variables and insert them into the end of the struct
+		const removedVariables = variables.filter(variable => !variable.publicGetter);
+		const insertedVariables: string[] = [];
 		for (const variable of variables) {
+			const variableLines = getOwnLinesRange(textDocument, variable.range);
 			if (variable.publicGetter) {
-				// if the variable has a public getter, replace the variable with the public getter
+				// if the variable has a public getter, replace the variable with the public getter, separated from the surrounding code by blank lines
+				const getterText = printPublicGetter(variable.name, variable.publicGetter, contractName, template);
 				const publicGetterTextEdit: TextEdit = {
-					range: variable.range,
-					newText: printPublicGetter(variable.name, variable.publicGetter.typeName, toStorageStructName(contractName), indent)
+					range: variableLines ?? variable.range,
+					newText: variableLines !== undefined
+						? `${isAdjacentLineBlank(variableLines.start.line - 1, -1, removedVariables) ? '' : '\n'}${getLineIndent(textDocument, variableLines.start.line)}${getterText}\n${isAdjacentLineBlank(variableLines.end.line, 1, removedVariables) ? '' : '\n'}`
+						: getterText
 				};
 				edits.push(publicGetterTextEdit);
 			} else {
 				// otherwise, just delete the variable
 				const deleteVariableTextEdit: TextEdit = {
-					range: variable.range,
+					range: variableLines ?? variable.range,
 					newText: ""
 				};
 				edits.push(deleteVariableTextEdit);	
 			}
 
-			// TODO infer indents from textDocument using the first indent before the first non-trivia in the contract
-			// TODO instead of adding indents, get the trivia around the original variable and use that
-			const insertVariableTextEdit: TextEdit = {
-				range: slangToVSCodeRange(textDocument, structEndRange),
-				newText: `\
-${indent}${variable.content}
-${indent}}\
-`
-			};
-			edits.push(insertVariableTextEdit);
+			insertedVariables.push(variable.content);
+		}
+
+		// indent the fields like the last line in the struct, or one level more than the closing brace if the struct is empty
+		const closeBracePosition = slangToVSCodeRange(textDocument, structEndRange).start;
+		const closeBraceIndent = getLineIndent(textDocument, closeBracePosition.line);
+		if (textDocument.getText({ start: { line: closeBracePosition.line, character: 0 }, end: closeBracePosition }) !== closeBraceIndent) {
+			// the closing brace follows the last field on the same line
+			edits.push({
+				range: { start: closeBracePosition, end: closeBracePosition },
+				newText: `${insertedVariables.join(' ')} `
+			});
+			return;
+		}
+
+		let previousLine = closeBracePosition.line - 1;
+		while (previousLine > 0 && textDocument.getText({ start: { line: previousLine, character: 0 }, end: { line: previousLine + 1, character: 0 } }).trim().length === 0) {
+			previousLine--;
 		}
+		const previousLineText = textDocument.getText({ start: { line: previousLine, character: 0 }, end: { line: previousLine + 1, character: 0 } });
+		const fieldIndent = /\{\s*$/.test(previousLineText) ? `${closeBraceIndent}${indent}` : getLineIndent(textDocument, previousLine);
+
+		const lineStart = { line: closeBracePosition.line, character: 0 };
+		edits.push({
+			range: { start: lineStart, end: lineStart },
+			newText: insertedVariables.map(content => `${indentLines(content, fieldIndent)}\n`).join('')
+		});
 	}
 }
 
-function getNamespaceStructEndRange(contractCursor: cursor.Cursor, prefix: string, contractName: string): text_index.TextRange | undefined {
-	const namespaceStructCursor = contractCursor.spawn();
-	namespaceStructCursor.goToNextTerminalWithKind(TerminalKind.SingleLineNatSpecComment);
-	const natspecNode = namespaceStructCursor.node();
-	if (natspecNode instanceof TerminalNode) {
-		const natspecText = natspecNode.text;
+/**
+ * Gets the range of the whole lines that a range spans, including the line break at the end.
+ * @returns undefined if other code or comments are on the same lines as the range
+ */
+function getOwnLinesRange(textDocument: TextDocument, range: Range): Range | undefined {
+	const before = textDocument.getText({ start: { line: range.start.line, character: 0 }, end: range.start });
+	const after = textDocument.getText({ start: range.end, end: { line: range.end.line + 1, character: 0 } });
+	if (before.trim().length > 0 || after.trim().length > 0) {
+		return undefined;
+	}
+	return { start: { line: range.start.line, character: 0 }, end: { line: range.end.line + 1, character: 0 } };
+}
 
-		if (natspecText.includes(`@custom:storage-location erc7201:${getNamespaceId(prefix, contractName)}`)) {
+/**
+ * Gets the range of the closing brace of the struct annotated with the contract's expected namespace id.
+ */
+function getNamespaceStructEndRange(contractCursor: cursor.Cursor, prefix: string, contractName: string): text_index.TextRange | undefined {
+	const structCursor = contractCursor.spawn();
+	while (structCursor.goToNextNonterminalWithKind(NonterminalKind.StructDefinition)) {
+		const natSpec = getNatSpec(structCursor);
+		if (natSpec !== undefined && getStorageLocationAnnotationId(natSpec) === getNamespaceId(prefix, contractName)) {
 			// get range of the end of the struct
-			const namespaceStructEndCursor = contractCursor.spawn();
-			namespaceStructEndCursor.goToNextTerminalWithKind(TerminalKind.CloseBrace);
+			const namespaceStructEndCursor = structCursor.spawn();
+			assert(namespaceStructEndCursor.goToFirstChild());
+			while (!(namespaceStructEndCursor.node() instanceof TerminalNode && (namespaceStructEndCursor.node() as TerminalNode).kind === TerminalKind.CloseBrace)) {
+				assert(namespaceStructEndCursor.goToNextSibling());
+			}
 			return namespaceStructEndCursor.textRange;
 		}
 	}
 	return undefined;
 }
 
-function editNamespaceVariablesInFunctions(contractCursor: cursor.Cursor, contractName: string, variables: Variable[], textDocument: TextDocument, edits: TextEdit[]) {
-	const cursor = contractCursor.spawn();
-	while (cursor.goToNextNonterminalWithKinds([NonterminalKind.ConstructorDefinition, NonterminalKind.FunctionBody])) {
-		const blockCursor = cursor.spawn();
-		blockCursor.goToNextNonterminalWithKind(NonterminalKind.Block);
+/**
+ * Definitions whose bodies or headers can reference state variables.
+ * Free functions are not included since they cannot access state, and they are outside the contract anyway.
+ */
+const STATE_ACCESSING_DEFINITION_KINDS = [
+	NonterminalKind.FunctionDefinition,
+	NonterminalKind.ModifierDefinition,
+	NonterminalKind.ConstructorDefinition,
+	NonterminalKind.FallbackFunctionDefinition,
+	NonterminalKind.ReceiveFunctionDefinition,
+	NonterminalKind.UnnamedFunctionDefinition,
+];
+
+type MutabilityChange = {
+	definitionName: string;
+	from: StateMutability;
+	to: StateMutability;
+	externallyVisible: boolean;
+}
+
+/**
+ * Rewrites references to the given variables in all definitions of the contract, and adjusts the mutability of definitions that need it.
+ *
+ * @returns the mutability changes that were made
+ */
+function editNamespaceVariablesInFunctions(contractCursor: cursor.Cursor, contractName: string, variables: Variable[], template: NamespaceTemplate, functionMutabilities: FunctionMutabilities, textDocument: TextDocument, edits: TextEdit[]): MutabilityChange[] {
+	const mutabilityChanges: MutabilityChange[] = [];
+	const variableNames = variables.map(variable => variable.name);
+	const referenceTypeVariables = new Map([...getReferenceTypeVariables(contractCursor)].filter(([name]) => variableNames.includes(name)));
+
+	const definitionCursor = contractCursor.spawn();
+	while (definitionCursor.goToNextNonterminalWithKinds(STATE_ACCESSING_DEFINITION_KINDS)) {
+		const blockCursor = definitionCursor.spawn();
+		const hasBody = blockCursor.goToNextNonterminalWithKind(NonterminalKind.Block);
 
-		const blockNode = blockCursor.node();
-		assert(blockNode instanceof NonterminalNode);
+		const references = findStateVariableReferences(definitionCursor, variableNames);
+		const needsStorageGetter = replaceVariables(getNamespaceNames(template, contractName), references, hasBody ? blockCursor : undefined, edits, textDocument);
+		if (needsStorageGetter) {
+			addStorageGetter(printStorageGetterStatement(contractName, template), blockCursor, references, edits, textDocument, template.indent);
+		}
 
-		const needsReplacement = replaceVariables(blockCursor, variables, edits, textDocument);
-		if (needsReplacement) {
-			addStorageGetter(contractName, blockNode, blockCursor, edits, textDocument);
+		const mutabilityChange = editMutability(definitionCursor, references, referenceTypeVariables, functionMutabilities, textDocument, edits);
+		if (mutabilityChange !== undefined) {
+			mutabilityChanges.push(mutabilityChange);
 		}
 	}
+	return mutabilityChanges;
 }
 
-function addStorageGetter(contractName: string, blockNode: NonterminalNode, functionBodyCursor: cursor.Cursor, edits: TextEdit[], textDocument: TextDocument, indent = "    ") {
-	const expectedLine = `${toStorageStructName(contractName)} storage $ = _get${toStorageStructName(contractName)}();`
-	if (!blockNode.unparse().includes(expectedLine)) {
-		const openBraceCursor = functionBodyCursor.spawn();
-		assert(openBraceCursor.goToNextTerminalWithKind(TerminalKind.OpenBrace));
+/**
+ * Gets the state variables with reference types, which can be modified through storage references.
+ * These are mappings, arrays, structs declared in the contract, and types qualified by a library name such as `EnumerableSet.AddressSet`.
+ *
+ * @returns the type names of the variables, keyed by variable name
+ */
+function getReferenceTypeVariables(contractCursor: cursor.Cursor): Map<string, string> {
+	const structNames: string[] = [];
+	const structCursor = contractCursor.spawn();
+	while (structCursor.goToNextNonterminalWithKind(NonterminalKind.StructDefinition)) {
+		const structDefNode = structCursor.node();
+		assert(structDefNode instanceof NonterminalNode);
+		structNames.push(new StructDefinition(structDefNode).name.text);
+	}
+
+	const variables: Map<string, string> = new Map();
+	const stateVarCursor = contractCursor.spawn();
+	while (stateVarCursor.goToNextNonterminalWithKind(NonterminalKind.StateVariableDefinition)) {
+		const stateVarDefNode = stateVarCursor.node();
+		assert(stateVarDefNode instanceof NonterminalNode);
+		const stateVar = new StateVariableDefinition(stateVarDefNode);
+
+		const typeName = stateVar.typeName.variant;
+		if (typeName instanceof MappingType || typeName instanceof ArrayTypeName ||
+			(typeName instanceof IdentifierPath && (typeName.items.length > 1 || structNames.includes(typeName.items[0].text)))) {
+			variables.set(stateVar.name.text, stateVar.typeName.cst.unparse().trim());
+		}
+	}
+	return variables;
+}
+
+/**
+ * Makes a definition less restrictive if its declared mutability does not allow how it accesses the moved variables,
+ * e.g. removes `view` from a function that writes to them.
+ */
+function editMutability(definitionCursor: cursor.Cursor, references: IdentifierReference[], referenceTypeVariables: Map<string, string>, functionMutabilities: FunctionMutabilities, textDocument: TextDocument, edits: TextEdit[]): MutabilityChange | undefined {
+	const declared = getDeclaredMutability(definitionCursor);
+	const required = getRequiredMutability(references, referenceTypeVariables, functionMutabilities);
+	if (declared.keywordRange === undefined || declared.attributeRange === undefined || maxMutability(declared.mutability, required) === declared.mutability) {
+		return undefined;
+	}
+
+	if (required === 'view') {
 		edits.push({
-			range: slangToVSCodeRange(textDocument, openBraceCursor.textRange),
-			newText: `{\n${indent}${indent}${expectedLine}\n`
+			range: slangToVSCodeRange(textDocument, declared.keywordRange),
+			newText: 'view'
+		});
+	} else {
+		edits.push({
+			range: slangToVSCodeRange(textDocument, declared.attributeRange),
+			newText: ''
 		});
 	}
+
+	return {
+		definitionName: getDefinitionName(definitionCursor),
+		from: declared.mutability,
+		to: required,
+		externallyVisible: declared.externallyVisible,
+	};
 }
 
-function replaceVariables(blockCursor: cursor.Cursor, variables: Variable[], edits: TextEdit[], textDocument: TextDocument): boolean {
-	let needsReplacement = false;
+function getDefinitionName(definitionCursor: cursor.Cursor): string {
+	const definitionNode = definitionCursor.node();
+	assert(definitionNode instanceof NonterminalNode);
+	switch (definitionNode.kind) {
+		case NonterminalKind.FunctionDefinition:
+			return new FunctionDefinition(definitionNode).name.cst.unparse().trim();
+		case NonterminalKind.FallbackFunctionDefinition:
+			return 'fallback';
+		case NonterminalKind.ReceiveFunctionDefinition:
+			return 'receive';
+		default:
+			return 'function';
+	}
+}
+
+/**
+ * Adds the statement that gets the namespace to the start of a block, unless the block already has it before the first use of the storage variable.
+ * If the block has it after a use, e.g. because an earlier fix inserted statements above it, it is moved to the start of the block.
+ *
+ * @param references the references that will be rewritten to use the storage variable
+ */
+function addStorageGetter(expectedLine: string, blockCursor: cursor.Cursor, references: IdentifierReference[], edits: TextEdit[], textDocument: TextDocument, indent: string) {
+	const statementCursor = findStorageGetterStatement(blockCursor, textDocument, expectedLine);
+	if (statementCursor !== undefined) {
+		if (!isStorageVariableUsedBefore(statementCursor, blockCursor, references)) {
+			return;
+		}
+		edits.push({
+			range: slangToVSCodeRange(textDocument, statementCursor.textRange),
+			newText: ''
+		});
+	}
+
+	const blockStart = getBlockStart(blockCursor, textDocument, indent);
+	edits.push({
+		range: { start: blockStart.position, end: blockStart.position },
+		newText: printBlockStatements(blockStart, [expectedLine])
+	});
+}
+
+type BlockStart = {
+	position: Position;
+	indent: string;
+	singleLine: boolean;
+}
+
+/**
+ * Gets where statements are inserted at the start of a block.
+ * If the block continues on a new line after its open brace, they are inserted at the start of that line, after any comment that follows the open brace,
+ * and indented like the first statement of the block. Otherwise, they are inserted on the same line, before the first statement or the close brace.
+ */
+function getBlockStart(blockCursor: cursor.Cursor, textDocument: TextDocument, indent: string): BlockStart {
+	const triviaCursor = blockCursor.spawn();
+	assert(triviaCursor.goToNextTerminalWithKind(TerminalKind.OpenBrace));
+	const openBraceLine = slangToVSCodeRange(textDocument, triviaCursor.textRange).start.line;
+
+	let insertionPosition: Position | undefined = undefined;
+	while (triviaCursor.goToNextTerminal()) {
+		const node = triviaCursor.node();
+		assert(node instanceof TerminalNode);
+		if (!isTrivia(node)) {
+			break;
+		} else if (node.kind === TerminalKind.EndOfLine && insertionPosition === undefined) {
+			insertionPosition = slangToVSCodeRange(textDocument, triviaCursor.textRange).end;
+		}
+	}
+
+	const firstNode = triviaCursor.node();
+	const firstNodeRange = slangToVSCodeRange(textDocument, triviaCursor.textRange);
+	if (insertionPosition === undefined) {
+		return { position: firstNodeRange.start, indent: '', singleLine: true };
+	}
+
+	const isEmpty = firstNode instanceof TerminalNode && firstNode.kind === TerminalKind.CloseBrace;
+	return {
+		position: insertionPosition,
+		indent: isEmpty ? `${getLineIndent(textDocument, openBraceLine)}${indent}` : getLineIndent(textDocument, firstNodeRange.start.line),
+		singleLine: false,
+	};
+}
+
+/**
+ * Prints statements to insert at the start of a block, on their own lines or on the same line as the open brace.
+ */
+function printBlockStatements(blockStart: BlockStart, statements: string[]): string {
+	if (blockStart.singleLine) {
+		return statements.map(statement => `${statement} `).join('');
+	}
+	return statements.map(statement => `${blockStart.indent}${statement}\n`).join('');
+}
+
+/**
+ * Finds the statement directly in a block that gets the namespace, e.g. `XStorage storage $ = _getXStorage();`.
+ *
+ * @param expectedStatement the statement to find, or undefined to find any storage pointer that is initialized by a function call without arguments
+ * @returns a cursor pointing to the Statement, or undefined if the block does not have one
+ */
+function findStorageGetterStatement(blockCursor: cursor.Cursor, textDocument: TextDocument, expectedStatement: string | undefined): cursor.Cursor | undefined {
+	const statementCursor = blockCursor.spawn();
+	while (statementCursor.goToNextNonterminalWithKind(NonterminalKind.Statement)) {
+		// Block > Statements > Statement, so that statements in nested blocks are skipped
+		if (statementCursor.depth !== 2) {
+			continue;
+		}
+
+		const statementNode = statementCursor.node();
+		assert(statementNode instanceof NonterminalNode);
+		const statement = new Statement(statementNode).variant;
+		if (expectedStatement !== undefined) {
+			if (textDocument.getText(slangToVSCodeRange(textDocument, getTrimmedRange(statementCursor))) === expectedStatement) {
+				return statementCursor;
+			}
+		} else if (statement instanceof VariableDeclarationStatement && statement.storageLocation?.variant.kind === TerminalKind.StorageKeyword) {
+			const value = statement.value?.expression.variant;
+			if (value instanceof FunctionCallExpression && value.arguments.variant instanceof PositionalArgumentsDeclaration && value.arguments.variant.arguments.items.length === 0) {
+				return statementCursor;
+			}
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Returns true if the variable declared by the storage getter statement is used earlier in the block, or if any of the references that will be rewritten to use it come before it.
+ */
+function isStorageVariableUsedBefore(statementCursor: cursor.Cursor, blockCursor: cursor.Cursor, references: IdentifierReference[]): boolean {
+	const statementStart = getTrimmedRange(statementCursor).start.utf16;
+	const blockRange = blockCursor.textRange;
+	if (references.some(reference => reference.textRange.start.utf16 >= blockRange.start.utf16 && reference.textRange.start.utf16 < statementStart)) {
+		return true;
+	}
+
+	const statementNode = statementCursor.node();
+	assert(statementNode instanceof NonterminalNode);
+	const declaration = new Statement(statementNode).variant;
+	assert(declaration instanceof VariableDeclarationStatement);
+	const variableName = declaration.name.text;
+
 	const identifierCursor = blockCursor.spawn();
 	while (identifierCursor.goToNextTerminalWithKind(TerminalKind.Identifier)) {
+		if (identifierCursor.textRange.start.utf16 >= statementStart) {
+			break;
+		}
 		const identifierNode = identifierCursor.node();
 		assert(identifierNode instanceof TerminalNode);
+		if (identifierNode.text === variableName) {
+			return true;
+		}
+	}
+	return false;
+}
+
+/**
+ * Replaces references to state variables in a definition with references to the namespace.
+ * Within the body, `x` becomes `$.x`, using the storage variable name of the template. Outside of it, e.g. in modifier invocation arguments in the header where `$` is not in scope, `x` becomes `_getXStorage().x`.
+ *
+ * @param references the references to the moved variables, which exclude identifiers that are bound to local declarations
+ * @returns true if the body references the namespace and needs the storage getter
+ */
+function replaceVariables(names: NamespaceNames, references: IdentifierReference[], blockCursor: cursor.Cursor | undefined, edits: TextEdit[], textDocument: TextDocument): boolean {
+	const blockRange = blockCursor?.textRange;
+	let needsStorageGetter = false;
+
+	for (const reference of references) {
+		const inBody = blockRange !== undefined && reference.textRange.start.utf16 >= blockRange.start.utf16 && reference.textRange.end.utf16 <= blockRange.end.utf16;
+		edits.push({
+			range: slangToVSCodeRange(textDocument, reference.textRange),
+			newText: inBody ? `${names.storageVariableName}.${reference.name}` : `${names.getterName}().${reference.name}`
+		});
+		needsStorageGetter ||= inBody;
+	}
+	return needsStorageGetter;
+}
+
+/**
+ * Gets a quick fix for removing a state variable's initial value and assigning it in the contract's initializer instead.
+ */
+export async function getMoveInitialValueToInitializerQuickFix(fixesDiagnostics: Diagnostic[], title: string, contractName: string, variableName: string, textDocument: TextDocument, context: AnalysisContext): Promise<CodeAction | undefined> {
+	const { parseOutput } = await getParsedDocument(textDocument, context);
+	const codeStyle = getCodeStyle(textDocument, context);
 
-		if (variables.some(variable => variable.name === identifierNode.text)) {
-			needsReplacement = true;
+	const contractCursor = findContractCursor(parseOutput, contractName);
+	if (contractCursor === undefined) {
+		return undefined;
+	}
+
+	const edits: TextEdit[] = [];
+
+	const stateVarCursor = contractCursor.spawn();
+	while (stateVarCursor.goToNextNonterminalWithKind(NonterminalKind.StateVariableDefinition)) {
+		const stateVarDefNode = stateVarCursor.node();
+		assert(stateVarDefNode instanceof NonterminalNode);
+		const stateVar = new StateVariableDefinition(stateVarDefNode);
+
+		const valueCursor = stateVarCursor.spawn();
+		if (stateVar.name.text === variableName && stateVar.value !== undefined && valueCursor.goToNextNonterminalWithKind(NonterminalKind.StateVariableDefinitionValue)) {
+			// remove ` = value` from the declaration
+			edits.push({
+				range: slangToVSCodeRange(textDocument, valueCursor.textRange),
+				newText: "",
+			});
+			editInitializer(contractCursor, contractName, [`${variableName} = ${stateVar.value.value.cst.unparse().trim()};`], undefined, textDocument, edits, codeStyle.indent);
+			break;
+		}
+	}
+
+	if (edits.length === 0) {
+		return undefined;
+	}
+
+	const workspaceEdit: WorkspaceEdit = {
+		changes: { [textDocument.uri]: normalizeLineEndings(edits, codeStyle.eol) }
+	};
+	const codeAction: CodeAction = {
+		title: title,
+		kind: CodeActionKind.QuickFix,
+		edit: workspaceEdit,
+		diagnostics: fixesDiagnostics,
+	};
+
+	return codeAction;
+}
+
+/**
+ * Adds statements to the start of the contract's `__X_init_unchained` or `initialize` function, after the statement that gets the namespace if it has one.
+ * If neither exists, creates `initialize` (or `__X_init_unchained` for abstract contracts) at the end of the contract.
+ *
+ * @param storageGetterStatement the statement that declares `$`, if the statements reference the namespace through it. It is added to the function if needed.
+ */
+function editInitializer(contractCursor: cursor.Cursor, contractName: string, statements: string[], storageGetterStatement: string | undefined, textDocument: TextDocument, edits: TextEdit[], indent: string) {
+	const initializerBlockCursor = findInitializerBlock(contractCursor, contractName);
+
+	if (initializerBlockCursor !== undefined) {
+		const blockStart = getBlockStart(initializerBlockCursor, textDocument, indent);
+		const isStorageGetterAdded = (statement: string) => edits.some(edit => edit.newText.includes(statement) && edit.range.start.line === blockStart.position.line && edit.range.start.character === blockStart.position.character);
+		if (storageGetterStatement !== undefined && !isStorageGetterAdded(storageGetterStatement)) {
+			addStorageGetter(storageGetterStatement, initializerBlockCursor, [], edits, textDocument, indent);
+		}
+
+		// if the function already gets the namespace, insert after that statement, so that `$` is declared before the statements even if a later fix makes them use it
+		let insertionPosition = blockStart.position;
+		const storageGetterCursor = findStorageGetterStatement(initializerBlockCursor, textDocument, storageGetterStatement);
+		if (storageGetterCursor !== undefined) {
+			// the statement ends after its trailing trivia, which is the end of its line unless the block is on a single line
+			insertionPosition = slangToVSCodeRange(textDocument, storageGetterCursor.textRange).end;
+		}
+
+		edits.push({
+			range: { start: insertionPosition, end: insertionPosition },
+			newText: printBlockStatements(blockStart, statements),
+		});
+	} else {
+		const contractDefNode = contractCursor.node();
+		assert(contractDefNode instanceof NonterminalNode);
+		const isAbstract = new ContractDefinition(contractDefNode).abstractKeyword !== undefined;
+
+		const signature = isAbstract ? `function ${toInitFunctionName(contractName)}_unchained() internal onlyInitializing` : `function initialize() public initializer`;
+		const body = [...(storageGetterStatement !== undefined ? [storageGetterStatement] : []), ...statements];
+
+		const closeBraceCursor = contractCursor.spawn();
+		assert(closeBraceCursor.goToFirstChild());
+		while (!(closeBraceCursor.node() instanceof TerminalNode && (closeBraceCursor.node() as TerminalNode).kind === TerminalKind.CloseBrace)) {
+			assert(closeBraceCursor.goToNextSibling());
+		}
+		const insertionPosition = textDocument.positionAt(closeBraceCursor.textRange.start.utf16);
+		edits.push({
+			range: { start: insertionPosition, end: insertionPosition },
+			newText: `\n${indent}${signature} {\n${body.map(statement => `${indent}${indent}${statement}\n`).join('')}${indent}}\n`,
+		});
+	}
+}
+
+/**
+ * Finds the contract's functions by name.
+ * @returns a map from function names to cursors pointing to their FunctionDefinition
+ */
+function findFunctions(contractCursor: cursor.Cursor): Map<string, cursor.Cursor> {
+	const functions: Map<string, cursor.Cursor> = new Map();
+
+	const functionCursor = contractCursor.spawn();
+	while (functionCursor.goToNextNonterminalWithKind(NonterminalKind.FunctionDefinition)) {
+		const functionDefNode = functionCursor.node();
+		assert(functionDefNode instanceof NonterminalNode);
+		functions.set(new FunctionDefinition(functionDefNode).name.variant.text, functionCursor.spawn());
+	}
+	return functions;
+}
+
+/**
+ * Finds the body of the contract's `__X_init_unchained` function, or its `initialize` function if the former does not exist.
+ * @returns a cursor pointing to the Block of the function, or undefined if neither function exists
+ */
+function findInitializerBlock(contractCursor: cursor.Cursor, contractName: string): cursor.Cursor | undefined {
+	const functions = findFunctions(contractCursor);
+	const functionCursor = functions.get(`${toInitFunctionName(contractName)}_unchained`) ?? functions.get("initialize");
+	if (functionCursor === undefined) {
+		return undefined;
+	}
+
+	const blockCursor = functionCursor.spawn();
+	return blockCursor.goToNextNonterminalWithKind(NonterminalKind.Block) ? blockCursor : undefined;
+}
+
+/**
+ * Gets the names of all identifiers used within the node.
+ */
+function getIdentifierNames(node: NonterminalNode): string[] {
+	const names: string[] = [];
+	const identifierCursor = node.createCursor({ utf8: 0, utf16: 0, line: 0, column: 0 });
+	while (identifierCursor.goToNextTerminalWithKind(TerminalKind.Identifier)) {
+		names.push((identifierCursor.node() as TerminalNode).text);
+	}
+	return names;
+}
+
+/**
+ * Gets edits that make an existing `initialize` function call the given init function first, adding any of the parameters it does not have yet.
+ */
+function getExtendInitializeEdits(functionCursor: cursor.Cursor, parameters: { declaration: string, name: string }[], initCall: string, initName: string, textDocument: TextDocument, indent: string): TextEdit[] {
+	const functionDefNode = functionCursor.node();
+	assert(functionDefNode instanceof NonterminalNode);
+	const functionDef = new FunctionDefinition(functionDefNode);
+	const edits: TextEdit[] = [];
+
+	const existingNames = functionDef.parameters.parameters.items.map(parameter => parameter.name?.text);
+	const missingParameters = parameters.filter(parameter => !existingNames.includes(parameter.name));
+	if (missingParameters.length > 0) {
+		const closeParenCursor = functionCursor.spawn();
+		assert(closeParenCursor.goToNextNonterminalWithKind(NonterminalKind.ParametersDeclaration));
+		assert(closeParenCursor.goToNextTerminalWithKind(TerminalKind.CloseParen));
+		const position = textDocument.positionAt(closeParenCursor.textRange.start.utf16);
+		edits.push({
+			range: { start: position, end: position },
+			newText: `${existingNames.length > 0 ? ', ' : ''}${missingParameters.map(parameter => `${parameter.declaration} ${parameter.name}`).join(', ')}`,
+		});
+	}
+
+	if (functionDef.body.variant instanceof Block) {
+		const statements = functionDef.body.variant.statements.items;
+		if (statements.some(statement => getIdentifierNames(statement.cst).includes(initName))) {
+			return edits;
+		}
+
+		const blockCursor = functionCursor.spawn();
+		assert(blockCursor.goToNextNonterminalWithKind(NonterminalKind.Block));
+		if (statements.length > 0) {
+			// insert before the first statement, reusing its indentation for the statement that is moved down
+			const statementCursor = blockCursor.spawn();
+			assert(statementCursor.goToNextNonterminalWithKind(NonterminalKind.Statement));
+			const position = slangToVSCodeRange(textDocument, getTrimmedRange(statementCursor)).start;
+			const linePrefix = textDocument.getText({ start: { line: position.line, character: 0 }, end: position });
+			edits.push({
+				range: { start: position, end: position },
+				newText: /^\s*$/.test(linePrefix) ? `${initCall}\n${linePrefix}` : `${initCall} `,
+			});
+		} else {
+			edits.push({
+				range: slangToVSCodeRange(textDocument, getTrimmedRange(blockCursor)),
+				newText: `{\n${indent}${indent}${initCall}\n${indent}}`,
+			});
+		}
+	}
+	return edits;
+}
+
+/**
+ * Gets a quick fix for converting the constructor of an upgradeable contract into an initializer.
+ *
+ * The constructor's body is moved into `__X_init_unchained`, and the base contracts are initialized from `__X_init` by calling their
+ * `__Base_init` functions, in the order of the inheritance list, with the arguments of the base constructor invocations.
+ * The constructor is replaced with one that disables initializers and keeps any assignments to immutable variables, since these
+ * can only be assigned in the constructor. If the contract is not abstract, its `initialize` function calls `__X_init`, and is
+ * added if it does not exist yet.
+ *
+ * @returns undefined if the contract already has `__X_init` or `__X_init_unchained` functions
+ */
+export async function getConvertConstructorToInitializerQuickFix(fixesDiagnostics: Diagnostic[], title: string, contractName: string, textDocument: TextDocument, context: AnalysisContext): Promise<CodeAction | undefined> {
+	const { parseOutput } = await getParsedDocument(textDocument, context);
+	const { indent, eol } = getCodeStyle(textDocument, context);
+
+	const contractCursor = findContractCursor(parseOutput, contractName);
+	if (contractCursor === undefined) {
+		return undefined;
+	}
+	const contractDefNode = contractCursor.node();
+	assert(contractDefNode instanceof NonterminalNode);
+	const contractDef = new ContractDefinition(contractDefNode);
+
+	const constructorCursor = contractCursor.spawn();
+	if (!constructorCursor.goToNextNonterminalWithKind(NonterminalKind.ConstructorDefinition)) {
+		return undefined;
+	}
+	const constructorDefNode = constructorCursor.node();
+	assert(constructorDefNode instanceof NonterminalNode);
+	const constructorDef = new ConstructorDefinition(constructorDefNode);
+
+	const initName = toInitFunctionName(contractName);
+	const functions = findFunctions(contractCursor);
+	if (functions.has(initName) || functions.has(`${initName}_unchained`)) {
+		return undefined;
+	}
+
+	// name any unnamed parameters, since they need to be passed along to the init functions
+	const parameters = constructorDef.parameters.parameters.items.map((parameter, i) => ({
+		declaration: [parameter.typeName.cst.unparse().trim(), parameter.storageLocation?.cst.unparse().trim()].filter(part => part).join(' '),
+		name: parameter.name?.text ?? `arg${i}`,
+	}));
+	const parametersText = parameters.map(parameter => `${parameter.declaration} ${parameter.name}`).join(', ');
+	const argumentsText = parameters.map(parameter => parameter.name).join(', ');
+
+	// base constructor arguments can be given either in the inheritance list or as modifiers of the constructor
+	const baseArguments: Map<string, string> = new Map();
+	const modifiers: string[] = [];
+	const baseNames = contractDef.inheritance?.types.items.map(type => type.typeName.cst.unparse().trim()) ?? [];
+	for (const attribute of constructorDef.attributes.items) {
+		if (attribute.variant instanceof ModifierInvocation) {
+			const name = attribute.variant.name.cst.unparse().trim();
+			if (baseNames.includes(name)) {
+				baseArguments.set(name, attribute.variant.arguments?.cst.unparse().trim() ?? '()');
+			} else {
+				modifiers.push(attribute.variant.cst.unparse().trim());
+			}
+		}
+	}
+	for (const type of contractDef.inheritance?.types.items ?? []) {
+		if (type.arguments !== undefined) {
+			baseArguments.set(type.typeName.cst.unparse().trim(), type.arguments.cst.unparse().trim());
+		}
+	}
+
+	// initialize the bases in the order of the inheritance list, which is the order of their constructors in the linearization,
+	// including upgradeable bases without constructor arguments since their initializers may still need to run
+	const baseInitCalls = baseNames
+		.filter(name => baseArguments.has(name) || name.endsWith('Upgradeable'))
+		.map(name => `${toInitFunctionName(name)}${baseArguments.get(name) ?? '()'};`);
+
+	// immutable variables can only be assigned in the constructor, so keep those assignments and the parameters they use there
+	const immutableNames = getImmutableVariableNames(contractDef);
+	const constructorStatements = constructorDef.body.statements.items.filter(statement => isImmutableAssignmentStatement(statement, immutableNames));
+	const constructorIdentifiers = constructorStatements.flatMap(statement => getIdentifierNames(statement.cst));
+	const constructorParametersText = parameters
+		.filter(parameter => constructorIdentifiers.includes(parameter.name))
+		.map(parameter => `${parameter.declaration} ${parameter.name}`)
+		.join(', ');
+
+	// keep the original formatting of the body, except for any statements that disable initializers or stay in the constructor
+	const statements = constructorDef.body.statements.items
+		.filter(statement => !isDisableInitializersStatement(statement) && !isImmutableAssignmentStatement(statement, immutableNames))
+		.map(statement => statement.cst.unparse())
+		.join('')
+		.replace(/^(\s*\r?\n)+/, '')
+		.trimEnd();
+
+	const edits: TextEdit[] = [];
+
+	const initCall = `${initName}(${argumentsText});`;
+	const initFunctions: string[] = [];
+	const initializeCursor = functions.get("initialize");
+	if (initializeCursor !== undefined) {
+		edits.push(...getExtendInitializeEdits(initializeCursor, parameters, initCall, initName, textDocument, indent));
+	} else if (contractDef.abstractKeyword === undefined) {
+		initFunctions.push(`\
+function initialize(${parametersText}) public initializer {
+${indent}${indent}${initCall}
+${indent}}`);
+	}
+	initFunctions.push(`\
+function ${initName}(${parametersText}) internal onlyInitializing {
+${baseInitCalls.map(call => `${indent}${indent}${call}\n`).join('')}\
+${indent}${indent}${initName}_unchained(${argumentsText});
+${indent}}`);
+	initFunctions.push(`\
+function ${initName}_unchained(${parametersText}) internal ${[...modifiers, 'onlyInitializing'].join(' ')} {
+${statements.length > 0 ? `${statements}\n` : ''}\
+${indent}}`);
+
+	const newText = `\
+/// @custom:oz-upgrades-unsafe-allow constructor
+${indent}constructor(${constructorParametersText}) {
+${indent}${indent}_disableInitializers();
+${constructorStatements.map(statement => `${indent}${indent}${statement.cst.unparse().trim()}\n`).join('')}\
+${indent}}
+
+${indent}${initFunctions.join(`\n\n${indent}`)}`;
+
+	edits.push({
+		range: slangToVSCodeRange(textDocument, getTrimmedRange(constructorCursor)),
+		newText,
+	});
+
+	// base contracts are now initialized by the init functions, so remove their constructor arguments from the inheritance list
+	const inheritanceCursor = contractCursor.spawn();
+	while (inheritanceCursor.goToNextNonterminalWithKind(NonterminalKind.InheritanceType)) {
+		const argumentsCursor = inheritanceCursor.spawn();
+		if (argumentsCursor.goToNextNonterminalWithKind(NonterminalKind.ArgumentsDeclaration)) {
 			edits.push({
-				range: slangToVSCodeRange(textDocument, identifierCursor.textRange),
-				newText: `$.${identifierNode.text}`
+				range: slangToVSCodeRange(textDocument, argumentsCursor.textRange),
+				newText: "",
 			});
 		}
 	}
-	return needsReplacement;
+
+	const workspaceEdit: WorkspaceEdit = {
+		changes: { [textDocument.uri]: normalizeLineEndings(edits, eol) }
+	};
+	const codeAction: CodeAction = {
+		title: title,
+		kind: CodeActionKind.QuickFix,
+		edit: workspaceEdit,
+		diagnostics: fixesDiagnostics,
+	};
+
+	return codeAction;
+}
+
+/**
+ * Gets the name of the init function for a contract, following the naming convention of OpenZeppelin Contracts Upgradeable
+ * where the `Upgradeable` suffix is not part of the name, e.g. `__ERC20_init` for `ERC20Upgradeable`, except for `__UUPSUpgradeable_init`.
+ */
+function toInitFunctionName(contractName: string) {
+	return contractName === 'UUPSUpgradeable' ? '__UUPSUpgradeable_init' : `__${contractName.replace(/Upgradeable$/, '')}_init`;
 }
@@ -0,0 +1,98 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+
+export type Remapping = {
+	context?: string;
+	prefix: string;
+	target: string;
+}
+
+const remappingsCache: Map<string, Promise<Remapping[]>> = new Map();
+
+/**
+ * Gets the import remappings for a workspace folder from `remappings.txt`. For Foundry projects, use the remappings of `FoundryProject` instead.
+ * Remappings are cached per workspace folder until `clearRemappingsCache` is called.
+ */
+export function getRemappings(workspaceFolder: string): Promise<Remapping[]> {
+	let result = remappingsCache.get(workspaceFolder);
+	if (!result) {
+		result = readRemappingsFile(workspaceFolder);
+		remappingsCache.set(workspaceFolder, result);
+	}
+	return result;
+}
+
+export function clearRemappingsCache() {
+	remappingsCache.clear();
+}
+
+/**
+ * Reads the remappings from `remappings.txt` in a folder, if it exists.
+ */
+export async function readRemappingsFile(folder: string): Promise<Remapping[]> {
+	const remappings: Remapping[] = [];
+
+	const remappingsTxt = await readFileIfExists(path.join(folder, 'remappings.txt'));
+	if (remappingsTxt !== undefined) {
+		for (const line of remappingsTxt.split(/\r?\n/)) {
+			const remapping = parseRemapping(line);
+			if (remapping !== undefined) {
+				remappings.push(remapping);
+			}
+		}
+	}
+
+	return remappings;
+}
+
+/**
+ * Parses a remapping in the form `[context:]prefix=target`
+ */
+export function parseRemapping(text: string): Remapping | undefined {
+	const trimmed = text.trim();
+	const equalsIndex = trimmed.indexOf('=');
+	if (trimmed.length === 0 || trimmed.startsWith('#') || equalsIndex === -1) {
+		return undefined;
+	}
+
+	const left = trimmed.substring(0, equalsIndex);
+	const target = trimmed.substring(equalsIndex + 1);
+	const colonIndex = left.indexOf(':');
+	if (colonIndex === -1) {
+		return { prefix: left, target };
+	} else {
+		return { context: left.substring(0, colonIndex), prefix: left.substring(colonIndex + 1), target };
+	}
+}
+
+/**
+ * Applies the matching remapping with the longest context to an import path, and among those, the one with the longest prefix, like solc does.
+ *
+ * @param importPath the path as written in the import statement
+ * @param sourceName the path of the importing file, relative to the workspace folder. Used to match remapping contexts.
+ * @returns the remapped path relative to the workspace folder, or undefined if no remapping applies
+ */
+export function applyRemappings(importPath: string, sourceName: string, remappings: Remapping[]): string | undefined {
+	let best: Remapping | undefined = undefined;
+	for (const remapping of remappings) {
+		if (remapping.context !== undefined && !sourceName.startsWith(remapping.context)) {
+			continue;
+		}
+		if (importPath.startsWith(remapping.prefix) && (best === undefined || compareRemappings(remapping, best) > 0)) {
+			best = remapping;
+		}
+	}
+	return best !== undefined ? best.target + importPath.substring(best.prefix.length) : undefined;
+}
+
+function compareRemappings(a: Remapping, b: Remapping) {
+	return (a.context?.length ?? 0) - (b.context?.length ?? 0) || a.prefix.length - b.prefix.length;
+}
+
+async function readFileIfExists(filePath: string): Promise<string | undefined> {
+	try {
+		return await fs.readFile(filePath, 'utf8');
+	} catch (e: any) {
+		return undefined;
+	}
+}
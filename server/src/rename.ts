@@ -0,0 +1,115 @@
+import { AnnotatedTextEdit, ChangeAnnotation, TextDocumentEdit, TextEdit, WorkspaceEdit } from 'vscode-languageserver/node';
+import { Position, Range, TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { calculateERC7201StorageLocation } from './namespace';
+import { findOccurrenceAt, getOccurrences, Occurrence } from './navigation';
+import { getParsedDocument } from './documentCache';
+import { AnalysisContext, throwIfCancelled } from './context';
+import { findSolidityFiles, IGNORED_DIRECTORIES } from './workspace';
+import { getIndexedFile } from './workspaceIndex';
+import { getLibraryDirectories } from './foundry';
+
+import path from 'path';
+
+/**
+ * The id of the change annotation that asks for confirmation when the new namespace id is already in use.
+ */
+export const NAMESPACE_ID_IN_USE_ANNOTATION = 'namespaceIdInUse';
+
+/**
+ * Thrown when renaming a namespace to an id that cannot be used in its annotation and hash comment.
+ */
+export class InvalidNamespaceIdError extends Error {
+	constructor(namespaceId: string) {
+		super(`Invalid namespace id \`${namespaceId}\`: it must not be empty or contain whitespace, quotes or backslashes`);
+	}
+}
+
+/**
+ * Gets the range and current text of the namespace id at the given position, if it can be renamed.
+ * Namespace ids can be renamed from the `@custom:storage-location erc7201:<id>` annotation or from the hash comment of the location constant.
+ */
+export async function prepareRename(textDocument: TextDocument, position: Position, context: AnalysisContext): Promise<{ range: Range, placeholder: string } | undefined> {
+	const occurrence = await findNamespaceIdAt(textDocument, position, context);
+	if (occurrence === undefined) {
+		return undefined;
+	}
+	return { range: occurrence.range, placeholder: occurrence.namespace.namespaceId };
+}
+
+/**
+ * Renames the namespace id at the given position, updating the annotation, the hash comment and the value of the location constant together.
+ * If the new id is already used by another namespace in the document or the workspace, the edits are annotated to ask for confirmation.
+ */
+export async function renameNamespaceId(textDocument: TextDocument, position: Position, newNamespaceId: string, context: AnalysisContext): Promise<WorkspaceEdit | undefined> {
+	if (!/^[^\s"\\]+$/.test(newNamespaceId)) {
+		throw new InvalidNamespaceIdError(newNamespaceId);
+	}
+
+	const occurrence = await findNamespaceIdAt(textDocument, position, context);
+	if (occurrence === undefined) {
+		return undefined;
+	}
+
+	const namespace = occurrence.namespace;
+	const replacements: { range: Range, newText: string }[] = [{ range: namespace.idRange, newText: newNamespaceId }];
+	if (namespace.locationConstant?.hashCommentIdRange !== undefined) {
+		replacements.push({ range: namespace.locationConstant.hashCommentIdRange, newText: newNamespaceId });
+	}
+	if (namespace.locationConstant?.valueRange !== undefined) {
+		replacements.push({ range: namespace.locationConstant.valueRange, newText: calculateERC7201StorageLocation(newNamespaceId) });
+	}
+
+	const uses = newNamespaceId !== namespace.namespaceId ? await findNamespaceIdUses(newNamespaceId, textDocument, context) : [];
+	const edits: TextEdit[] = replacements.map(({ range, newText }) => uses.length > 0
+		? AnnotatedTextEdit.replace(range, newText, NAMESPACE_ID_IN_USE_ANNOTATION)
+		: TextEdit.replace(range, newText)
+	);
+
+	const workspaceEdit: WorkspaceEdit = {
+		documentChanges: [TextDocumentEdit.create({ uri: textDocument.uri, version: textDocument.version }, edits)],
+	};
+	if (uses.length > 0) {
+		workspaceEdit.changeAnnotations = {
+			[NAMESPACE_ID_IN_USE_ANNOTATION]: ChangeAnnotation.create(`Namespace id \`${newNamespaceId}\` is already in use`, true, `Used by ${uses.join(', ')}`),
+		};
+	}
+	return workspaceEdit;
+}
+
+async function findNamespaceIdAt(textDocument: TextDocument, position: Position, context: AnalysisContext): Promise<Occurrence | undefined> {
+	const occurrences = await getOccurrences(textDocument, context);
+	const occurrence = findOccurrenceAt(textDocument, occurrences, position);
+	return occurrence !== undefined && (occurrence.kind === 'annotation' || occurrence.kind === 'hashComment') ? occurrence : undefined;
+}
+
+/**
+ * Finds the contracts that use a namespace id in the document and in the other Solidity files of the workspace.
+ *
+ * @returns descriptions of the contracts, e.g. `Vault in contracts/Vault.sol`
+ */
+async function findNamespaceIdUses(namespaceId: string, textDocument: TextDocument, context: AnalysisContext): Promise<string[]> {
+	const filePath = URI.parse(textDocument.uri).fsPath;
+	const uses = (await getOccurrences(textDocument, context))
+		.filter(occurrence => occurrence.kind === 'annotation' && occurrence.namespace.namespaceId === namespaceId)
+		.map(occurrence => `${occurrence.contractName} in this file`);
+
+	const { language } = await getParsedDocument(textDocument, context);
+	for (const workspaceFolder of context.workspaceFolders) {
+		const ignoredDirectories = [...IGNORED_DIRECTORIES, ...await getLibraryDirectories(workspaceFolder)];
+		for (const otherFilePath of await findSolidityFiles([workspaceFolder], ignoredDirectories)) {
+			throwIfCancelled(context);
+			if (otherFilePath === filePath) {
+				continue;
+			}
+
+			const indexedFile = await getIndexedFile(otherFilePath, language);
+			for (const contract of indexedFile?.contracts ?? []) {
+				if (contract.namespaces.some(namespace => namespace.namespaceId === namespaceId)) {
+					uses.push(`${contract.name} in ${path.relative(workspaceFolder, otherFilePath)}`);
+				}
+			}
+		}
+	}
+	return uses;
+}
@@ -0,0 +1,121 @@
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver';
+
+export type ReportFormat = 'text' | 'json' | 'sarif';
+
+export const REPORT_FORMATS: ReportFormat[] = ['text', 'json', 'sarif'];
+
+export type FileDiagnostics = {
+	/**
+	 * The path of the file, relative to the project root.
+	 */
+	file: string;
+	diagnostics: Diagnostic[];
+}
+
+/**
+ * A diagnostic in a form that does not depend on the LSP types, with 1-based lines and columns.
+ */
+export type ReportedDiagnostic = {
+	file: string;
+	line: number;
+	column: number;
+	endLine: number;
+	endColumn: number;
+	severity: 'error' | 'warning' | 'information' | 'hint';
+	code: string;
+	message: string;
+}
+
+/**
+ * Formats the diagnostics of all files in the given format.
+ */
+export function formatReport(results: FileDiagnostics[], format: ReportFormat): string {
+	const diagnostics = results.flatMap(result => result.diagnostics.map(diagnostic => toReportedDiagnostic(result.file, diagnostic)));
+	switch (format) {
+		case 'text':
+			return formatText(diagnostics);
+		case 'json':
+			return JSON.stringify(diagnostics, null, 2) + '\n';
+		case 'sarif':
+			return JSON.stringify(toSarif(diagnostics), null, 2) + '\n';
+	}
+}
+
+function toReportedDiagnostic(file: string, diagnostic: Diagnostic): ReportedDiagnostic {
+	return {
+		file,
+		line: diagnostic.range.start.line + 1,
+		column: diagnostic.range.start.character + 1,
+		endLine: diagnostic.range.end.line + 1,
+		endColumn: diagnostic.range.end.character + 1,
+		severity: toSeverityName(diagnostic.severity),
+		code: String(diagnostic.code),
+		message: diagnostic.message,
+	};
+}
+
+function toSeverityName(severity: DiagnosticSeverity | undefined): ReportedDiagnostic['severity'] {
+	switch (severity) {
+		case DiagnosticSeverity.Warning:
+			return 'warning';
+		case DiagnosticSeverity.Information:
+			return 'information';
+		case DiagnosticSeverity.Hint:
+			return 'hint';
+		default:
+			return 'error';
+	}
+}
+
+/**
+ * Formats the diagnostics as lines of text, followed by a summary. Hints are listed, but are not counted as problems,
+ * since they only point out optional changes, e.g. that a contract can be namespaced.
+ */
+function formatText(diagnostics: ReportedDiagnostic[]): string {
+	const lines = diagnostics.map(diagnostic => `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}: ${diagnostic.severity}: ${diagnostic.message} [${diagnostic.code}]`);
+
+	const problems = diagnostics.filter(diagnostic => diagnostic.severity !== 'hint').length;
+	const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+	const warnings = diagnostics.filter(diagnostic => diagnostic.severity === 'warning').length;
+	const hints = diagnostics.length - problems;
+	lines.push(`${problems} problem${problems === 1 ? '' : 's'} (${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'})${hints > 0 ? `, ${hints} hint${hints === 1 ? '' : 's'}` : ''}`);
+
+	return lines.join('\n') + '\n';
+}
+
+/**
+ * Converts diagnostics to a SARIF 2.1.0 log, which can be uploaded to code scanning tools.
+ */
+function toSarif(diagnostics: ReportedDiagnostic[]) {
+	const ruleIds = [...new Set(diagnostics.map(diagnostic => diagnostic.code))];
+	return {
+		$schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+		version: '2.1.0',
+		runs: [{
+			tool: {
+				driver: {
+					name: 'openzeppelin-ls',
+					informationUri: 'https://github.com/OpenZeppelin/openzeppelin-vscode',
+					rules: ruleIds.map(id => ({ id })),
+				},
+			},
+			results: diagnostics.map(diagnostic => ({
+				ruleId: diagnostic.code,
+				ruleIndex: ruleIds.indexOf(diagnostic.code),
+				level: diagnostic.severity === 'error' ? 'error' : diagnostic.severity === 'warning' ? 'warning' : 'note',
+				message: { text: diagnostic.message },
+				locations: [{
+					physicalLocation: {
+						artifactLocation: { uri: diagnostic.file },
+						region: {
+							startLine: diagnostic.line,
+							startColumn: diagnostic.column,
+							endLine: diagnostic.endLine,
+							endColumn: diagnostic.endColumn,
+						},
+					},
+				}],
+			})),
+		}],
+	};
+}
@@ -9,7 +9,6 @@ import {
 	createConnection,
 	TextDocuments,
 	Diagnostic,
-	DiagnosticSeverity,
 	ProposedFeatures,
 	InitializeParams,
 	DidChangeConfigurationNotification,
@@ -21,24 +20,39 @@ import {
 	CodeActionParams,
 	CodeAction,
 	CodeActionContext,
-	LSPAny,
-	WorkspaceEdit
+	HoverParams,
+	Hover,
+	DocumentSymbolParams,
+	DocumentSymbol,
+	DefinitionParams,
+	ReferenceParams,
+	Location,
+	PrepareRenameParams,
+	RenameParams,
+	WorkspaceEdit,
+	ErrorCodes,
+	WorkspaceDocumentDiagnosticReport,
+	WorkspaceDiagnosticReport,
+	FormattingOptions,
+	CancellationToken,
+	ResponseError,
+	LSPErrorCodes,
+	type DiagnosticServerCancellationData
 } from 'vscode-languageserver/node';
 
 import {
-	Range,
-	TextDocument,
-	TextEdit} from 'vscode-languageserver-textdocument';
-
-import { NonterminalKind } from "@nomicfoundation/slang/kinds";
-import { Variable } from './namespace';
-import { Language } from '@nomicfoundation/slang/language';
+	TextDocument
+} from 'vscode-languageserver-textdocument';
 
 import { URI } from 'vscode-uri';
-import { CONTRACT_CAN_BE_NAMESPACED, NAMESPACE_HASH_MISMATCH, NAMESPACE_ID_MISMATCH, NAMESPACE_ID_MISMATCH_HASH_COMMENT, NAMESPACE_STANDALONE_HASH_MISMATCH, validateNamespaces } from './diagnostics';
-import { getMoveAllVariablesToNamespaceQuickFix } from './quickfixes';
-import { getNamespacePrefix, OpenZeppelinLSSettings } from './settings';
-import { inferSolidityVersion } from './solidityVersion';
+import { analyze, AnalysisCancelledError, AnalysisOptions, createDocumentCache, findDefinition, findReferences, getHoverInfo, getNamespaceIdToRename, InvalidNamespaceIdError, renameNamespace, getOutline, getQuickFixes, OpenZeppelinLSSettings } from './analysis';
+import { createValidationScheduler } from './validationScheduler';
+import { findSolidityFiles, IGNORED_DIRECTORIES, readTextDocument } from './workspace';
+import { invalidateIndexedFile } from './workspaceIndex';
+import { clearRemappingsCache } from './remappings';
+import { clearFoundryProjectCache, getLibraryDirectories } from './foundry';
+import { clearHardhatProjectCache } from './hardhat';
+import { clearProjectConfigCache } from './project';
 
 // Create a connection for the server, using Node's IPC as a transport.
 // Also include all preview / proposed LSP features.
@@ -51,7 +65,7 @@ let hasConfigurationCapability = false;
 let hasWorkspaceFolderCapability = false;
 let hasDiagnosticRelatedInformationCapability = false;
 
-export let workspaceFolders: string[] = [];
+const workspaceFolders: string[] = [];
 
 connection.onInitialize((params: InitializeParams) => {
 	const capabilities = params.capabilities;
@@ -87,12 +101,19 @@ connection.onInitialize((params: InitializeParams) => {
 		capabilities: {
 			textDocumentSync: TextDocumentSyncKind.Incremental,
 			diagnosticProvider: {
-				interFileDependencies: false,
-				workspaceDiagnostics: false
+				interFileDependencies: true,
+				workspaceDiagnostics: true
 			},
 			codeActionProvider : {
 				codeActionKinds : [ CodeActionKind.QuickFix ]
 			},
+			hoverProvider: true,
+			documentSymbolProvider: true,
+			definitionProvider: true,
+			referencesProvider: true,
+			renameProvider: {
+				prepareProvider: true
+			},
 		}
 	};
 	if (hasWorkspaceFolderCapability) {
@@ -126,6 +147,9 @@ let globalSettings: OpenZeppelinLSSettings = defaultSettings;
 // Cache the settings of all open documents
 const documentSettings: Map<string, Thenable<OpenZeppelinLSSettings>> = new Map();
 
+// Cache the parse trees of open documents, so that diagnostics, code actions and hovers of the same version share them
+const documentCache = createDocumentCache();
+
 connection.onDidChangeConfiguration(change => {
 	if (hasConfigurationCapability) {
 		// Reset all cached document settings
@@ -135,13 +159,15 @@ connection.onDidChangeConfiguration(change => {
 			(change.settings.openzeppelinLS || defaultSettings)
 		);
 	}
+	documentCache.clear();
+	validationScheduler.clear();
 	// Refresh the diagnostics since the `maxNumberOfProblems` could have changed.
 	// We could optimize things here and re-fetch the setting first can compare it
 	// to the existing setting, but this is out of scope for this example.
 	connection.languages.diagnostics.refresh();
 });
 
-export function getDocumentSettings(resource: string): Thenable<OpenZeppelinLSSettings> {
+function getDocumentSettings(resource: string): Thenable<OpenZeppelinLSSettings> {
 	if (!hasConfigurationCapability) {
 		return Promise.resolve(globalSettings);
 	}
@@ -151,23 +177,78 @@ export function getDocumentSettings(resource: string): Thenable<OpenZeppelinLSSe
 			scopeUri: resource,
 			section: 'openzeppelinLS'
 		});
-		documentSettings.set(resource, result);
+		// closed files that are checked for workspace diagnostics are not cached, since their settings are only removed when a document closes
+		if (documents.get(resource) !== undefined) {
+			documentSettings.set(resource, result);
+		}
 	}
 	return result;
 }
 
+/**
+ * Gets the editor's formatting options for a document, from the `editor.tabSize` and `editor.insertSpaces` settings of the client.
+ * @returns undefined if the client does not support the `workspace/configuration` request or does not have these settings
+ */
+async function getEditorFormattingOptions(resource: string): Promise<FormattingOptions | undefined> {
+	if (!hasConfigurationCapability) {
+		return undefined;
+	}
+	const editorSettings = await connection.workspace.getConfiguration({
+		scopeUri: resource,
+		section: 'editor'
+	});
+	if (typeof editorSettings?.tabSize !== 'number') {
+		return undefined;
+	}
+	return { tabSize: editorSettings.tabSize, insertSpaces: editorSettings.insertSpaces !== false };
+}
+
+/**
+ * Gets the options to analyze a document with. The editor's formatting options are only needed for generating code.
+ */
+async function getAnalysisOptions(resource: string, includeFormattingOptions = false): Promise<AnalysisOptions> {
+	return {
+		workspaceFolders,
+		settings: await getDocumentSettings(resource),
+		formattingOptions: includeFormattingOptions ? await getEditorFormattingOptions(resource) : undefined,
+		relatedInformation: hasDiagnosticRelatedInformationCapability,
+		// closed files that are checked for workspace diagnostics are not cached, so that their parse trees are not kept in memory
+		documentCache: documents.get(resource) !== undefined ? documentCache : undefined,
+	};
+}
+
+async function validateTextDocument(textDocument: TextDocument, cancellationToken: CancellationToken): Promise<Diagnostic[]> {
+	return (await analyze(textDocument, { ...await getAnalysisOptions(textDocument.uri), cancellationToken })).diagnostics;
+}
+
+// Open documents are validated after edits settle, and diagnostic requests are served from the latest validation
+const validationScheduler = createValidationScheduler(validateTextDocument);
+
 // Only keep settings for open documents
 documents.onDidClose(e => {
 	documentSettings.delete(e.document.uri);
+	documentCache.delete(e.document.uri);
+	validationScheduler.remove(e.document.uri);
 });
 
 
-connection.languages.diagnostics.on(async (params) => {
+connection.languages.diagnostics.on(async (params, token) => {
 	const document = documents.get(params.textDocument.uri);
 	if (document !== undefined) {
+		let items: Diagnostic[];
+		try {
+			items = await validationScheduler.getDiagnostics(document, token);
+		} catch (e) {
+			if (e instanceof AnalysisCancelledError) {
+				// the document changed or the request was cancelled, so ask the client to request the diagnostics again if it still needs them
+				throw new ResponseError<DiagnosticServerCancellationData>(LSPErrorCodes.ServerCancelled, e.message, { retriggerRequest: true });
+			}
+			console.error(e);
+			items = [];
+		}
 		return {
 			kind: DocumentDiagnosticReportKind.Full,
-			items: await validateTextDocument(document)
+			items
 		} satisfies DocumentDiagnosticReport;
 	} else {
 		// We don't know the document. We can either try to read it from disk
@@ -179,54 +260,65 @@ connection.languages.diagnostics.on(async (params) => {
 	}
 });
 
-// The content of a text document has changed. This event is emitted
-// when the text document first opened or when its content has changed.
-documents.onDidChangeContent(change => {
-	validateTextDocument(change.document);
-});
-
-export type NamespaceableContract = {
-	name: string;
-	variables: Variable[];
-}
-
-async function validateTextDocument(textDocument: TextDocument): Promise<Diagnostic[]> {
-	const diagnostics: Diagnostic[] = [];
-
-	const language = new Language(await inferSolidityVersion(textDocument, workspaceFolders));
-	const parseOutput = language.parse(NonterminalKind.SourceUnit, textDocument.getText());
+connection.languages.diagnostics.onWorkspace(async (params, token) => {
+	const items: WorkspaceDocumentDiagnosticReport[] = [];
 
-	await validateNamespaces(parseOutput, language, textDocument, diagnostics);
+	// Dependencies in library folders are only used to resolve imports, and are not reported on
+	const filePaths: string[] = [];
+	for (const workspaceFolder of workspaceFolders) {
+		filePaths.push(...await findSolidityFiles([workspaceFolder], [...IGNORED_DIRECTORIES, ...await getLibraryDirectories(workspaceFolder)]));
+	}
 
-	return diagnostics;
-}
+	for (const filePath of filePaths) {
+		if (token.isCancellationRequested) {
+			break;
+		}
 
-export function addDiagnostic(diagnostics: Diagnostic[], textDocument: TextDocument, range: Range, message: string, details: string, severity: DiagnosticSeverity, code: string, data: LSPAny) {
-	let diagnostic: Diagnostic = {
-		severity: severity,
-		range: range,
-		message: message,
-		source: "OpenZeppelin Language Server",
-		code: code,
-		data: data,
-	};
-	if (hasDiagnosticRelatedInformationCapability) {
-		diagnostic.relatedInformation = [
-			{
-				location: {
-					uri: textDocument.uri,
-					range: Object.assign({}, diagnostic.range)
-				},
-				message: details
+		const uri = URI.file(filePath).toString();
+		const openDocument = documents.get(uri);
+		try {
+			items.push({
+				kind: DocumentDiagnosticReportKind.Full,
+				uri,
+				version: openDocument?.version ?? null,
+				items: openDocument !== undefined
+					? await validationScheduler.getDiagnostics(openDocument, token)
+					: await validateTextDocument(await readTextDocument(filePath), token)
+			});
+		} catch (e) {
+			// files whose validation was cancelled are left out of the report
+			if (!(e instanceof AnalysisCancelledError)) {
+				console.error(e);
 			}
-		];
+		}
 	}
-	diagnostics.push(diagnostic);
-}
 
-connection.onDidChangeWatchedFiles(_change => {
+	return { items } satisfies WorkspaceDiagnosticReport;
+});
+
+// The content of a text document has changed. This event is emitted
+// when the text document first opened or when its content has changed.
+documents.onDidChangeContent(change => {
+	validationScheduler.schedule(change.document);
+});
+
+connection.onDidChangeWatchedFiles(change => {
 	// Monitored files have change in VSCode
 	connection.console.log('We received a file change event');
+
+	// Other files may import or inherit from the changed files, so drop them from the index and refresh all diagnostics
+	for (const fileEvent of change.changes) {
+		invalidateIndexedFile(URI.parse(fileEvent.uri).fsPath);
+	}
+	clearRemappingsCache();
+	clearFoundryProjectCache();
+	clearHardhatProjectCache();
+	clearProjectConfigCache();
+	// Reset all cached document settings, which may have changed along with the project config
+	documentSettings.clear();
+	documentCache.clear();
+	validationScheduler.clear();
+	connection.languages.diagnostics.refresh();
 });
 
 // Make the text document manager listen on the connection
@@ -248,67 +340,108 @@ connection.onCodeAction(
 		let context : CodeActionContext = _params.context;
 		let diagnostics : Diagnostic[] = context.diagnostics;
 
-		codeActions = await getCodeActions(diagnostics, textDocument, _params);
+		codeActions = await getQuickFixes(textDocument, diagnostics, await getAnalysisOptions(textDocument.uri, true));
 
 		return codeActions;
 	}
 )
 
-async function getCodeActions(diagnostics: Diagnostic[], textDocument: TextDocument, params: CodeActionParams) : Promise<CodeAction[]> {
-	let codeActions : CodeAction[] = [];
-	try {	
-		for (let i = 0; i < diagnostics.length; i++) {
-			let diagnostic = diagnostics[i];
-			if (String(diagnostic.code) === NAMESPACE_ID_MISMATCH) {
-				let title : string = "Replace namespace id";
-				let range : Range = diagnostic.range;
-				let replacement : string = String(diagnostic.data.replacement);
-				codeActions.push(getQuickFixReplacement([diagnostic], title, range, replacement, textDocument));
-			} else if (String(diagnostic.code) === NAMESPACE_ID_MISMATCH_HASH_COMMENT) {
-				let title : string = "Replace namespace comment";
-				let range : Range = diagnostic.range;
-				let replacement : string = String(diagnostic.data.replacement);
-				codeActions.push(getQuickFixReplacement([diagnostic], title, range, replacement, textDocument));
-			} else if (String(diagnostic.code) === NAMESPACE_HASH_MISMATCH) {
-				let title : string = "Recalculate hash using comment";
-				let range : Range = diagnostic.range;
-				let replacement : string = String(diagnostic.data.replacement);
-				codeActions.push(getQuickFixReplacement([diagnostic], title, range, replacement, textDocument));
-			} else if (String(diagnostic.code) === NAMESPACE_STANDALONE_HASH_MISMATCH) {
-				let title : string = "Recalculate hash using expected id";
-				let range : Range = diagnostic.range;
-				let replacement : string = String(diagnostic.data.replacement);
-				codeActions.push(getQuickFixReplacement([diagnostic], title, range, replacement, textDocument));
-			} else if (String(diagnostic.code) === CONTRACT_CAN_BE_NAMESPACED) {
-				const title = "Move all variables to namespace";
-				const prefix = await getNamespacePrefix(textDocument);;
-				const contractName = (diagnostic.data as NamespaceableContract).name;
-				const quickfix = await getMoveAllVariablesToNamespaceQuickFix(diagnostics, title, prefix, contractName, (diagnostic.data as NamespaceableContract).variables, textDocument); // this fixes all diagnostics in scope
-				if (quickfix !== undefined) {
-					codeActions.push(quickfix);
-				}
-			}
+connection.onHover(
+	async (params: HoverParams): Promise<Hover | undefined> => {
+		const textDocument = documents.get(params.textDocument.uri);
+		if (textDocument === undefined) {
+			return undefined;
+		}
+
+		try {
+			return await getHoverInfo(textDocument, params.position, await getAnalysisOptions(textDocument.uri));
+		} catch (e) {
+			console.error(e);
+			return undefined;
 		}
-	} catch (e) {
-		console.error(e);
 	}
+);
 
-	return codeActions;
-}
+connection.onDocumentSymbol(
+	async (params: DocumentSymbolParams): Promise<DocumentSymbol[]> => {
+		const textDocument = documents.get(params.textDocument.uri);
+		if (textDocument === undefined) {
+			return [];
+		}
 
-function getQuickFixReplacement(fixesDiagnostics: Diagnostic[], title: string, range: Range, replacement: string, textDocument: TextDocument): CodeAction {
-	let textEdit: TextEdit = {
-		range: range,
-		newText: replacement
-	};
-	let workspaceEdit: WorkspaceEdit = {
-		changes: { [textDocument.uri]: [textEdit] }
-	};
-	let codeAction: CodeAction = {
-		title: title,
-		kind: CodeActionKind.QuickFix,
-		edit: workspaceEdit,
-		diagnostics: fixesDiagnostics,
-	};
-	return codeAction;
-}
+		try {
+			return await getOutline(textDocument, await getAnalysisOptions(textDocument.uri));
+		} catch (e) {
+			console.error(e);
+			return [];
+		}
+	}
+);
+
+connection.onDefinition(
+	async (params: DefinitionParams): Promise<Location | undefined> => {
+		const textDocument = documents.get(params.textDocument.uri);
+		if (textDocument === undefined) {
+			return undefined;
+		}
+
+		try {
+			return await findDefinition(textDocument, params.position, await getAnalysisOptions(textDocument.uri));
+		} catch (e) {
+			console.error(e);
+			return undefined;
+		}
+	}
+);
+
+connection.onReferences(
+	async (params: ReferenceParams): Promise<Location[]> => {
+		const textDocument = documents.get(params.textDocument.uri);
+		if (textDocument === undefined) {
+			return [];
+		}
+
+		try {
+			return await findReferences(textDocument, params.position, params.context.includeDeclaration, await getAnalysisOptions(textDocument.uri));
+		} catch (e) {
+			console.error(e);
+			return [];
+		}
+	}
+);
+
+connection.onPrepareRename(
+	async (params: PrepareRenameParams) => {
+		const textDocument = documents.get(params.textDocument.uri);
+		if (textDocument === undefined) {
+			return undefined;
+		}
+
+		try {
+			return await getNamespaceIdToRename(textDocument, params.position, await getAnalysisOptions(textDocument.uri));
+		} catch (e) {
+			console.error(e);
+			return undefined;
+		}
+	}
+);
+
+connection.onRenameRequest(
+	async (params: RenameParams): Promise<WorkspaceEdit | undefined> => {
+		const textDocument = documents.get(params.textDocument.uri);
+		if (textDocument === undefined) {
+			return undefined;
+		}
+
+		try {
+			return await renameNamespace(textDocument, params.position, params.newName, await getAnalysisOptions(textDocument.uri));
+		} catch (e) {
+			if (e instanceof InvalidNamespaceIdError) {
+				// shown to the user, who can try again with another id
+				throw new ResponseError(ErrorCodes.InvalidParams, e.message);
+			}
+			console.error(e);
+			return undefined;
+		}
+	}
+);
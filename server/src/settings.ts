@@ -1,27 +1,55 @@
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { getDocumentSettings, workspaceFolders } from './server';
+import { URI } from 'vscode-uri';
+import { AnalysisContext } from './context';
+import { findWorkspaceFolder, getProjectFolder } from './project';
+import { DEFAULT_NAMESPACE_TEMPLATE, NamespaceTemplate } from './namespace';
+import { inferEol, inferIndent } from './helpers/formatting';
+
+import path from 'path';
+import { promises as fs } from 'fs';
 
 export interface OpenZeppelinLSSettings {
 	solidityVersion?: string;
 	namespacePrefix?: string;
+	template?: TemplateSettings;
+}
+
+/**
+ * Settings for generated namespace code. See `NamespaceTemplate` for the meaning of each setting.
+ */
+export interface TemplateSettings {
+	structName?: string;
+	locationConstantName?: string;
+	getterName?: string;
+	storageVariableName?: string;
+	getterVisibility?: 'private' | 'internal';
+	commentStyle?: 'line' | 'block';
+	/**
+	 * The number of spaces to indent with, or `tab`. If not set, the indentation is inferred from the document.
+	 */
+	indent?: number | 'tab' | null;
 }
 
 /**
- * Gets the namespace prefix from the settings or the workspace folder name.
+ * Project config file that can be committed to share settings with a team. It is read from the root of the workspace folder.
  */
-export async function getNamespacePrefix(textDocument: TextDocument) {
-	const settings = await getDocumentSettings(textDocument.uri);
-	let namespacePrefix = settings.namespacePrefix;
+export const PROJECT_CONFIG_FILE = 'openzeppelin-ls.json';
+
+/**
+ * Gets the namespace prefix from the settings, or from the name of the project folder that contains the document.
+ * The project folder is the nearest Foundry or Hardhat project above the document if there is one, otherwise the workspace folder.
+ */
+export async function getNamespacePrefix(textDocument: TextDocument, context: AnalysisContext) {
+	let namespacePrefix = context.settings.namespacePrefix;
 
 	if (!namespacePrefix) {
-		console.log("No namespace prefix set. Detecting based on workspace name.");
+		console.log("No namespace prefix set. Detecting based on project name.");
 
-		if (workspaceFolders.length > 0) {
-			// for now we just use the folder name of the first workspace folder
-			// TODO: detect project name from hardhat or foundry project?
-			const folderName = workspaceFolders[0].split('/').pop()!;
+		const filePath = URI.parse(textDocument.uri).fsPath;
+		const projectFolder = await getProjectFolder(filePath, context.workspaceFolders) ?? context.workspaceFolders[0];
+		if (projectFolder !== undefined) {
 			// convert whitespace to dash
-			namespacePrefix = folderName.replace(/\s+/g, '-');
+			namespacePrefix = path.basename(projectFolder).replace(/\s+/g, '-');
 		}
 	} else {
 		console.log("Namespace prefix is: " + namespacePrefix);
@@ -29,3 +57,97 @@ export async function getNamespacePrefix(textDocument: TextDocument) {
 
 	return namespacePrefix ?? '';
 }
+
+export type CodeStyle = {
+	indent: string;
+	eol: string;
+}
+
+/**
+ * Gets the indentation unit and line ending to use for code generated in a document.
+ * Both are inferred from the document. If the document has no indented blocks, the editor's formatting options are used for the indentation.
+ */
+export function getCodeStyle(textDocument: TextDocument, context: AnalysisContext): CodeStyle {
+	const text = textDocument.getText();
+
+	let indent = inferIndent(text);
+	if (indent === undefined) {
+		const formattingOptions = context.formattingOptions;
+		if (formattingOptions !== undefined) {
+			indent = formattingOptions.insertSpaces ? ' '.repeat(formattingOptions.tabSize) : '\t';
+		} else {
+			indent = DEFAULT_NAMESPACE_TEMPLATE.indent;
+		}
+	}
+
+	return {
+		indent,
+		eol: inferEol(text) ?? '\n',
+	};
+}
+
+/**
+ * Gets the template for generated namespace code. Settings from the project config file take precedence over workspace settings.
+ * If neither sets the indentation, it is inferred using `getCodeStyle`.
+ */
+export async function getNamespaceTemplate(textDocument: TextDocument, context: AnalysisContext): Promise<NamespaceTemplate> {
+	const projectConfig = await readProjectConfig(textDocument, context.workspaceFolders);
+	return {
+		...DEFAULT_NAMESPACE_TEMPLATE,
+		indent: getCodeStyle(textDocument, context).indent,
+		...toNamespaceTemplate(context.settings.template),
+		...toNamespaceTemplate(projectConfig?.template),
+	};
+}
+
+function toNamespaceTemplate(templateSettings: TemplateSettings | undefined): Partial<NamespaceTemplate> {
+	const result: Partial<NamespaceTemplate> = {};
+	if (templateSettings === undefined) {
+		return result;
+	}
+
+	for (const key of ['structName', 'locationConstantName', 'getterName', 'storageVariableName'] as const) {
+		const value = templateSettings[key];
+		if (typeof value === 'string' && value.trim().length > 0) {
+			result[key] = value.trim();
+		}
+	}
+	if (templateSettings.getterVisibility === 'private' || templateSettings.getterVisibility === 'internal') {
+		result.getterVisibility = templateSettings.getterVisibility;
+	}
+	if (templateSettings.commentStyle === 'line' || templateSettings.commentStyle === 'block') {
+		result.commentStyle = templateSettings.commentStyle;
+	}
+	if (templateSettings.indent === 'tab') {
+		result.indent = '\t';
+	} else if (typeof templateSettings.indent === 'number' && templateSettings.indent > 0) {
+		result.indent = ' '.repeat(templateSettings.indent);
+	}
+	return result;
+}
+
+/**
+ * Reads the project config file from the workspace folder that contains the document.
+ */
+async function readProjectConfig(textDocument: TextDocument, workspaceFolders: string[]): Promise<OpenZeppelinLSSettings | undefined> {
+	const filePath = URI.parse(textDocument.uri).fsPath;
+	const workspaceFolder = findWorkspaceFolder(filePath, workspaceFolders);
+	if (workspaceFolder === undefined) {
+		return undefined;
+	}
+
+	const configPath = path.join(workspaceFolder, PROJECT_CONFIG_FILE);
+	let text;
+	try {
+		text = await fs.readFile(configPath, 'utf8');
+	} catch (e: any) {
+		// no project config
+		return undefined;
+	}
+	try {
+		return JSON.parse(text);
+	} catch (e: any) {
+		console.error(`Could not parse ${configPath}: ${e.message}`);
+		return undefined;
+	}
+}
@@ -1,104 +1,137 @@
 
 import { TextDocument} from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
 
 import { Language } from '@nomicfoundation/slang/language';
+import { NonterminalKind } from '@nomicfoundation/slang/kinds';
 
-import { getHighestSupportedPragmaVersion } from './helpers/slang';
-import { getDocumentSettings } from './server';
+import { getHighestSupportedPragmaVersion, getPragmaVersionRanges, PragmaVersionRange } from './helpers/slang';
+import { AnalysisContext } from './context';
+import { FOUNDRY_CONFIG_FILE, getFoundryProject } from './foundry';
+import { getHardhatProject, selectHardhatCompiler } from './hardhat';
+import { getProjectFolder } from './project';
 
 import path from 'path';
-import { promises as fs } from 'fs';
+import semver from 'semver';
+
+/**
+ * A Solidity version that is configured for a document, as opposed to inferred from its pragma.
+ */
+type ConfiguredSolidityVersion = {
+	/**
+	 * The configured version, or undefined if the config has no compiler that can compile the document.
+	 */
+	version?: string;
+	/**
+	 * Where the version is configured, e.g. `foundry.toml`.
+	 */
+	origin: string;
+}
+
+/**
+ * A configured Solidity version that does not satisfy the pragmas of a document.
+ */
+export type SolidityVersionMismatch = ConfiguredSolidityVersion & {
+	/**
+	 * The pragma version ranges that the configured version does not satisfy.
+	 */
+	unsatisfiedPragmas: PragmaVersionRange[];
+}
+
+export type SolidityVersionResolution = {
+	/**
+	 * The version to parse the document with.
+	 */
+	version: string;
+	/**
+	 * Set if a configured version does not satisfy the pragmas of the document, in which case the version is inferred from the pragma instead.
+	 */
+	mismatch?: SolidityVersionMismatch;
+}
 
 /**
  * Tries to infer the Solidity version in the following order:
  * 1. From the language server settings
- * 2. From Foundry config
- * 3. From Hardhat config
+ * 2. From Foundry config of the nearest project above the document, using the active profile
+ * 3. From Hardhat config of the nearest project above the document, selecting the compiler for the document the way Hardhat does
  * 4. From pragma statement
+ *
+ * A configured version is only used if it satisfies the pragmas of the document.
  */
-export async function inferSolidityVersion(textDocument: TextDocument, workspaceFolders: string[]): Promise<string> {
-	const versionFromSetting = (await getDocumentSettings(textDocument.uri)).solidityVersion;
-	if (versionFromSetting && versionFromSetting.trim().length > 0) {
-		console.log("Using Solidity version from settings: " + versionFromSetting);
-		return versionFromSetting;
-	}
+export async function inferSolidityVersion(textDocument: TextDocument, context: AnalysisContext): Promise<string> {
+	return (await resolveSolidityVersion(textDocument, context)).version;
+}
 
-	const versionFromFoundry = await inferSolidityVersionFromFoundry(workspaceFolders);
-	if (versionFromFoundry) {
-		console.log("Using Solidity version from Foundry config: " + versionFromFoundry);
-		return versionFromFoundry;
-	}
+/**
+ * Infers the Solidity version like `inferSolidityVersion`, and also reports whether the configured version does not satisfy the pragmas of the document.
+ */
+export async function resolveSolidityVersion(textDocument: TextDocument, context: AnalysisContext): Promise<SolidityVersionResolution> {
+	// the pragmas are read by parsing with the latest version, since the version of the document is not known yet
+	const pragmaParseOutput = new Language(getLatestSolidityVersion()).parse(NonterminalKind.SourceUnit, textDocument.getText());
+	const pragmaVersionRanges = getPragmaVersionRanges(pragmaParseOutput);
+
+	const configured = await getConfiguredSolidityVersion(textDocument, context, pragmaVersionRanges);
+	let mismatch: SolidityVersionMismatch | undefined;
+	if (configured !== undefined) {
+		const configuredVersion = configured.version;
+		const unsatisfiedPragmas = configuredVersion === undefined
+			? pragmaVersionRanges
+			: pragmaVersionRanges.filter(pragma => !satisfies(configuredVersion, pragma.versionRange));
+
+		if (configuredVersion !== undefined && unsatisfiedPragmas.length === 0) {
+			console.log(`Using Solidity version from ${configured.origin}: ${configuredVersion}`);
+			return { version: configuredVersion };
+		}
 
-	const versionFromHardhat = await inferSolidityVersionFromHardhat(workspaceFolders);
-	if (versionFromHardhat) {
-		console.log("Using Solidity version from Hardhat config: " + versionFromHardhat);
-		return versionFromHardhat;
+		console.log(`Solidity version from ${configured.origin} does not satisfy the pragma. Using the pragma instead.`);
+		mismatch = { ...configured, unsatisfiedPragmas };
 	}
-	
-	const versionFromPragma = getHighestSupportedPragmaVersion(textDocument);
+
+	const versionFromPragma = getHighestSupportedPragmaVersion(pragmaParseOutput);
 	if (versionFromPragma) {
 		console.log("Using Solidity version from pragma: " + versionFromPragma);
-		return versionFromPragma;
+		return { version: versionFromPragma, mismatch };
 	}
 
 	console.error("Could not determine Solidity version from pragma. Using latest version.");
-	return Language.supportedVersions()[Language.supportedVersions().length - 1];
+	return { version: getLatestSolidityVersion(), mismatch };
 }
 
-async function inferSolidityVersionFromFoundry(workspaceFolders: string[]) {
-	const regex = /solc\s*=\s*["']([^"']+)["']/;
+async function getConfiguredSolidityVersion(textDocument: TextDocument, context: AnalysisContext, pragmaVersionRanges: PragmaVersionRange[]): Promise<ConfiguredSolidityVersion | undefined> {
+	const versionFromSetting = context.settings.solidityVersion;
+	if (versionFromSetting && versionFromSetting.trim().length > 0) {
+		return { version: versionFromSetting.trim(), origin: 'settings' };
+	}
 
-	if (workspaceFolders.length > 0) {
-		for (const workspaceFolder of workspaceFolders) {
-			const foundryConfigPath = path.join(workspaceFolder, 'foundry.toml');
-			const version = await inferVersionFromConfig(foundryConfigPath, regex);
-			if (version) {
-				return version;
-			}
-		}
+	const filePath = URI.parse(textDocument.uri).fsPath;
+	const projectFolder = await getProjectFolder(filePath, context.workspaceFolders);
+	if (projectFolder === undefined) {
+		return undefined;
 	}
-	return undefined;
-}
 
-async function inferSolidityVersionFromHardhat(workspaceFolders: string[]) {
-	const regex = /solidity:[\s]*{[\s]*version:[\s]*["']([^"']+)["']/;
-
-	if (workspaceFolders.length > 0) {
-		for (const workspaceFolder of workspaceFolders) {
-			const hardhatConfigTsPath = path.join(workspaceFolder, 'hardhat.config.ts');
-			const versionTs = await inferVersionFromConfig(hardhatConfigTsPath, regex);
-			if (versionTs) {
-				return versionTs;
-			}
-
-			const hardhatConfigJsPath = path.join(workspaceFolder, 'hardhat.config.js');
-			const versionJs = await inferVersionFromConfig(hardhatConfigJsPath, regex);
-			if (versionJs) {
-				return versionJs;
-			}
-		}
+	const foundryProject = await getFoundryProject(projectFolder);
+	if (foundryProject?.solcVersion !== undefined) {
+		return { version: foundryProject.solcVersion, origin: FOUNDRY_CONFIG_FILE };
+	}
+
+	const hardhatProject = await getHardhatProject(projectFolder);
+	if (hardhatProject !== undefined) {
+		const sourceName = path.relative(hardhatProject.root, filePath).split(path.sep).join('/');
+		const versionRanges = pragmaVersionRanges.map(pragma => pragma.versionRange);
+		return { version: selectHardhatCompiler(hardhatProject.solidity, sourceName, versionRanges), origin: hardhatProject.configFile };
 	}
+
 	return undefined;
 }
 
-async function inferVersionFromConfig(filePath: string, regex: RegExp) {
-	if (await exists(filePath)) {
-		const configFile = await fs.readFile(filePath, 'utf8');
-
-		const solidityVersion = configFile.match(regex);
-		if (solidityVersion && solidityVersion[1]) {
-			return solidityVersion[1];
-		} else {
-			return undefined;
-		}
-	}
+/**
+ * Whether a version satisfies a pragma version range. Versions that are not valid semver, such as from settings, are not checked.
+ */
+function satisfies(version: string, versionRange: string) {
+	return semver.valid(version) === null || semver.satisfies(version, versionRange);
 }
 
-async function exists(file: string): Promise<boolean> {
-	try {
-		await fs.access(file);
-		return true;
-	} catch (e: any) {
-		return false;
-	}
-}
\ No newline at end of file
+function getLatestSolidityVersion() {
+	const supportedVersions = Language.supportedVersions();
+	return supportedVersions[supportedVersions.length - 1];
+}
@@ -0,0 +1,231 @@
+import { Range } from 'vscode-languageserver-textdocument';
+import { NonterminalKind, TerminalKind } from '@nomicfoundation/slang/kinds';
+import assert = require('node:assert');
+import { NonterminalNode, TerminalNode } from '@nomicfoundation/slang/cst';
+import { AddressType, ArrayTypeName, ElementaryType, EnumDefinition, FunctionType, IdentifierPath, MappingType, StateVariableDefinition, StructDefinition, TypeName, UserDefinedValueTypeDefinition } from '@nomicfoundation/slang/ast';
+import { parse_output } from '@nomicfoundation/slang';
+
+/**
+ * The conventional name of a storage gap, which is a `uint256` array that reserves slots for variables added in future versions of a contract.
+ */
+export const STORAGE_GAP_NAME = '__gap';
+
+/**
+ * By convention, the variables of a contract and its storage gap use this many slots in total.
+ */
+export const STORAGE_GAP_TOTAL_SLOTS = 50;
+
+export type StorageGap = {
+	/**
+	 * The number of slots reserved by the gap.
+	 */
+	size: number;
+	range: Range;
+	/**
+	 * The range to delete when removing the gap, which includes its comments.
+	 */
+	removalRange: Range;
+}
+
+/**
+ * The storage that a type uses. Value types use a number of bytes and are packed with adjacent value types into slots,
+ * while other types use whole slots.
+ */
+export type StorageSize = { bytes: number } | { slots: number };
+
+type TypeDefinition = EnumDefinition | StructDefinition | UserDefinedValueTypeDefinition | { kind: 'contract' };
+
+/**
+ * The types defined in a source file, keyed by name. Names that are defined more than once are mapped to undefined, since they cannot be resolved by name alone.
+ */
+export type TypeDefinitions = Map<string, TypeDefinition | undefined>;
+
+const SLOT_BYTES = 32;
+
+/**
+ * Gets the size of a storage gap, if the state variable is one.
+ */
+export function getStorageGapSize(stateVar: StateVariableDefinition): number | undefined {
+	if (stateVar.name.text !== STORAGE_GAP_NAME) {
+		return undefined;
+	}
+
+	const variant = stateVar.typeName.variant;
+	if (!(variant instanceof ArrayTypeName) || !isUint256(variant.operand)) {
+		return undefined;
+	}
+	return getArrayLength(variant);
+}
+
+/**
+ * Collects the enums, structs, user defined value types, contracts and interfaces defined in a source file, which are needed to compute storage sizes.
+ */
+export function collectTypeDefinitions(parseOutput: parse_output.ParseOutput): TypeDefinitions {
+	const definitions: TypeDefinitions = new Map();
+	const add = (name: string, definition: TypeDefinition) => definitions.set(name, definitions.has(name) ? undefined : definition);
+
+	const cursor = parseOutput.createTreeCursor();
+	while (cursor.goToNextNonterminal()) {
+		const node = cursor.node();
+		assert(node instanceof NonterminalNode);
+		switch (node.kind) {
+			case NonterminalKind.EnumDefinition: {
+				const definition = new EnumDefinition(node);
+				add(definition.name.text, definition);
+				break;
+			}
+			case NonterminalKind.StructDefinition: {
+				const definition = new StructDefinition(node);
+				add(definition.name.text, definition);
+				break;
+			}
+			case NonterminalKind.UserDefinedValueTypeDefinition: {
+				const definition = new UserDefinedValueTypeDefinition(node);
+				add(definition.name.text, definition);
+				break;
+			}
+			case NonterminalKind.ContractDefinition:
+			case NonterminalKind.InterfaceDefinition: {
+				const name = node.children().find(child => child instanceof TerminalNode && child.kind === TerminalKind.Identifier);
+				assert(name instanceof TerminalNode);
+				add(name.text, { kind: 'contract' });
+				break;
+			}
+		}
+	}
+	return definitions;
+}
+
+/**
+ * Gets the storage size of a type, following the Solidity storage layout rules.
+ *
+ * @returns the size, or undefined if it cannot be determined, e.g. if the type is defined in another file
+ */
+export function getStorageSize(typeName: TypeName, definitions: TypeDefinitions): StorageSize | undefined {
+	return getTypeNameSize(typeName, definitions, new Set());
+}
+
+/**
+ * Counts the slots used by consecutive storage items of the given sizes, packing adjacent value types into the same slot.
+ */
+export function countStorageSlots(sizes: StorageSize[]): number {
+	let slots = 0;
+	// bytes used in the current slot, which is not counted yet
+	let offset = 0;
+	for (const size of sizes) {
+		if ('bytes' in size) {
+			if (offset + size.bytes > SLOT_BYTES) {
+				slots++;
+				offset = 0;
+			}
+			offset += size.bytes;
+		} else {
+			// structs and arrays start a new slot, and so do the items after them
+			if (offset > 0) {
+				slots++;
+				offset = 0;
+			}
+			slots += size.slots;
+		}
+	}
+	return offset > 0 ? slots + 1 : slots;
+}
+
+function getTypeNameSize(typeName: TypeName, definitions: TypeDefinitions, resolving: Set<string>): StorageSize | undefined {
+	const variant = typeName.variant;
+	if (variant instanceof ElementaryType) {
+		return getElementaryTypeSize(variant);
+	} else if (variant instanceof MappingType) {
+		return { slots: 1 };
+	} else if (variant instanceof FunctionType) {
+		const isExternal = variant.attributes.items.some(attribute => attribute.variant.kind === TerminalKind.ExternalKeyword);
+		return { bytes: isExternal ? 24 : 8 };
+	} else if (variant instanceof ArrayTypeName) {
+		return getArraySize(variant, definitions, resolving);
+	} else {
+		return getUserDefinedTypeSize(variant, definitions, resolving);
+	}
+}
+
+function getElementaryTypeSize(elementaryType: ElementaryType): StorageSize | undefined {
+	const variant = elementaryType.variant;
+	if (variant instanceof AddressType) {
+		return { bytes: 20 };
+	}
+
+	const text = variant.text;
+	let match;
+	if (text === 'bool') {
+		return { bytes: 1 };
+	} else if (text === 'string' || text === 'bytes') {
+		return { slots: 1 };
+	} else if ((match = /^u?int(\d*)$/.exec(text))) {
+		return { bytes: (match[1] ? parseInt(match[1]) : 256) / 8 };
+	} else if ((match = /^bytes(\d+)$/.exec(text))) {
+		return { bytes: parseInt(match[1]) };
+	} else if (text === 'byte') {
+		return { bytes: 1 };
+	} else if ((match = /^u?fixed(?:(\d+)x\d+)?$/.exec(text))) {
+		return { bytes: (match[1] ? parseInt(match[1]) : 128) / 8 };
+	}
+	return undefined;
+}
+
+function getArraySize(arrayType: ArrayTypeName, definitions: TypeDefinitions, resolving: Set<string>): StorageSize | undefined {
+	if (arrayType.index === undefined) {
+		// dynamic arrays store their length in their slot, and their elements elsewhere
+		return { slots: 1 };
+	}
+
+	const length = getArrayLength(arrayType);
+	const elementSize = getTypeNameSize(arrayType.operand, definitions, resolving);
+	if (length === undefined || elementSize === undefined) {
+		return undefined;
+	}
+
+	if ('bytes' in elementSize) {
+		const elementsPerSlot = Math.floor(SLOT_BYTES / elementSize.bytes);
+		return { slots: Math.ceil(length / elementsPerSlot) };
+	}
+	return { slots: length * elementSize.slots };
+}
+
+function getUserDefinedTypeSize(identifierPath: IdentifierPath, definitions: TypeDefinitions, resolving: Set<string>): StorageSize | undefined {
+	const name = identifierPath.items[identifierPath.items.length - 1].text;
+	const definition = definitions.get(name);
+	if (definition === undefined || resolving.has(name)) {
+		return undefined;
+	}
+
+	if (definition instanceof EnumDefinition) {
+		return { bytes: definition.members.items.length <= 256 ? 1 : 2 };
+	} else if (definition instanceof UserDefinedValueTypeDefinition) {
+		return getElementaryTypeSize(definition.valueType);
+	} else if (definition instanceof StructDefinition) {
+		resolving.add(name);
+		const memberSizes = definition.members.items.map(member => getTypeNameSize(member.typeName, definitions, resolving));
+		resolving.delete(name);
+		if (memberSizes.some(size => size === undefined)) {
+			return undefined;
+		}
+		return { slots: countStorageSlots(memberSizes as StorageSize[]) };
+	} else {
+		return { bytes: 20 };
+	}
+}
+
+/**
+ * Gets the length of a fixed-size array, if it is a number literal.
+ */
+function getArrayLength(arrayType: ArrayTypeName): number | undefined {
+	const text = arrayType.index?.cst.unparse().trim().replace(/_/g, '');
+	if (text === undefined || !/^(\d+|0x[0-9a-fA-F]+)$/.test(text)) {
+		return undefined;
+	}
+	return Number(text);
+}
+
+function isUint256(typeName: TypeName) {
+	const variant = typeName.variant;
+	return variant instanceof ElementaryType && variant.variant instanceof TerminalNode && (variant.variant.text === 'uint256' || variant.variant.text === 'uint');
+}
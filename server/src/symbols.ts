@@ -0,0 +1,105 @@
+import { DocumentSymbol, SymbolKind } from 'vscode-languageserver/node';
+import { Position, TextDocument } from 'vscode-languageserver-textdocument';
+import { NonterminalKind } from "@nomicfoundation/slang/kinds";
+import assert = require('node:assert');
+import { NonterminalNode } from '@nomicfoundation/slang/cst';
+import { ContractDefinition } from '@nomicfoundation/slang/ast';
+import { cursor } from '@nomicfoundation/slang';
+import { getNameRange, getTrimmedRange, slangToVSCodeRange } from './helpers/slang';
+import { Declaration, getNamespaceDeclarations, getStateVariableDeclarations } from './namespaceDeclarations';
+import { getParsedDocument } from './documentCache';
+import { AnalysisContext } from './context';
+
+/**
+ * The label of the node that groups the state variables of a contract that are not in a namespace yet.
+ */
+export const NON_NAMESPACED_STORAGE_LABEL = 'non-namespaced storage';
+
+/**
+ * Gets the outline of a document: each contract with its ERC7201 namespaces, and its state variables that are not namespaced.
+ * Each namespace contains the fields of its struct, its storage location constant and the function that returns its storage struct.
+ */
+export async function getDocumentSymbols(textDocument: TextDocument, context: AnalysisContext): Promise<DocumentSymbol[]> {
+	const { parseOutput } = await getParsedDocument(textDocument, context);
+
+	const symbols: DocumentSymbol[] = [];
+	const cursor = parseOutput.createTreeCursor();
+	while (cursor.goToNextNonterminalWithKind(NonterminalKind.ContractDefinition)) {
+		const contractDefNode = cursor.node();
+		assert(contractDefNode instanceof NonterminalNode);
+		const contractDef = new ContractDefinition(contractDefNode);
+
+		symbols.push({
+			name: contractDef.name.text,
+			kind: SymbolKind.Class,
+			range: slangToVSCodeRange(textDocument, getTrimmedRange(cursor)),
+			selectionRange: slangToVSCodeRange(textDocument, getNameRange(cursor)!),
+			children: getContractChildren(cursor, textDocument),
+		});
+	}
+	return symbols;
+}
+
+function getContractChildren(contractCursor: cursor.Cursor, textDocument: TextDocument): DocumentSymbol[] {
+	const children: DocumentSymbol[] = getNamespaceDeclarations(contractCursor, textDocument).map(namespace => {
+		const symbol: DocumentSymbol = {
+			name: `erc7201:${namespace.namespaceId}`,
+			detail: namespace.location,
+			kind: SymbolKind.Namespace,
+			range: { start: namespace.natSpecRange.start, end: namespace.struct.range.end },
+			selectionRange: namespace.natSpecRange,
+			children: namespace.fields.map(field => toSymbol(field, SymbolKind.Field)),
+		};
+		if (namespace.locationConstant !== undefined) {
+			addChild(symbol, toSymbol(namespace.locationConstant, SymbolKind.Constant));
+		}
+		if (namespace.getter !== undefined) {
+			addChild(symbol, toSymbol(namespace.getter, SymbolKind.Function));
+		}
+		return symbol;
+	});
+
+	const variables = getStateVariableDeclarations(contractCursor, textDocument)
+		.filter(variable => !variable.isConstant && !variable.isImmutable)
+		.map(variable => toSymbol(variable, SymbolKind.Field));
+	if (variables.length > 0) {
+		children.push({
+			name: NON_NAMESPACED_STORAGE_LABEL,
+			detail: `${variables.length} ${variables.length === 1 ? 'variable' : 'variables'}`,
+			kind: SymbolKind.Package,
+			range: {
+				start: variables[0].range.start,
+				end: variables[variables.length - 1].range.end,
+			},
+			selectionRange: variables[0].selectionRange,
+			children: variables,
+		});
+	}
+
+	return children;
+}
+
+function toSymbol(declaration: Declaration, kind: SymbolKind): DocumentSymbol {
+	return {
+		name: declaration.name,
+		detail: declaration.typeName,
+		kind,
+		range: declaration.range,
+		selectionRange: declaration.nameRange,
+	};
+}
+
+/**
+ * Adds a child to a symbol, extending the symbol's range to contain it.
+ */
+function addChild(symbol: DocumentSymbol, child: DocumentSymbol) {
+	symbol.children = [...(symbol.children ?? []), child];
+	symbol.range = {
+		start: comparePositions(child.range.start, symbol.range.start) < 0 ? child.range.start : symbol.range.start,
+		end: comparePositions(child.range.end, symbol.range.end) > 0 ? child.range.end : symbol.range.end,
+	};
+}
+
+function comparePositions(a: Position, b: Position) {
+	return a.line !== b.line ? a.line - b.line : a.character - b.character;
+}
@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { analyze, CONTRACT_CAN_BE_NAMESPACED, getQuickFixes, VARIABLE_CAN_BE_NAMESPACED } from '../analysis';
+
+const source = {
+	filePath: '/project/contracts/Counter.sol',
+	text: `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+
+contract Counter is Initializable {
+    uint256 count;
+
+    function increment() public {
+        count++;
+    }
+}
+`,
+};
+
+suite('Should analyze without a language server', () => {
+	test('Returns diagnostics for a source', async () => {
+		const result = await analyze(source, { workspaceFolders: ['/project'] });
+		assert.strictEqual(result.uri, 'file:///project/contracts/Counter.sol');
+		assert.deepStrictEqual(result.diagnostics.map(diagnostic => diagnostic.code), [VARIABLE_CAN_BE_NAMESPACED, CONTRACT_CAN_BE_NAMESPACED]);
+		assert.ok(result.diagnostics.every(diagnostic => diagnostic.relatedInformation !== undefined));
+	});
+
+	test('Omits related information if not requested', async () => {
+		const result = await analyze(source, { relatedInformation: false });
+		assert.ok(result.diagnostics.every(diagnostic => diagnostic.relatedInformation === undefined));
+	});
+
+	test('Uses the namespace prefix from settings', async () => {
+		const { diagnostics } = await analyze(source, { workspaceFolders: ['/project'], settings: { namespacePrefix: 'example' } });
+		const contractDiagnostic = diagnostics.find(diagnostic => diagnostic.code === CONTRACT_CAN_BE_NAMESPACED)!;
+
+		const [quickFix] = await getQuickFixes(source, [contractDiagnostic], { settings: { namespacePrefix: 'example' } });
+		const edits = quickFix.edit!.changes!['file:///project/contracts/Counter.sol'];
+		const fixed = TextDocument.applyEdits(TextDocument.create('file:///project/contracts/Counter.sol', 'solidity', 0, source.text), edits);
+		assert.ok(fixed.includes('@custom:storage-location erc7201:example.Counter'));
+		assert.ok(fixed.includes('$.count++;'));
+	});
+});
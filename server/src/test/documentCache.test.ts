@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { createAnalysisContext } from '../analysis';
+import { getParsedDocument } from '../documentCache';
+
+const uri = 'file:///project/contracts/Counter.sol';
+const text = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+contract Counter {
+    uint256 count;
+}
+`;
+
+suite('Should cache parsed documents', () => {
+	test('Reuses the parse output for the same version', async () => {
+		const context = createAnalysisContext({ settings: { namespacePrefix: 'example' } });
+		const textDocument = TextDocument.create(uri, 'solidity', 1, text);
+
+		const first = await getParsedDocument(textDocument, context);
+		const second = await getParsedDocument(textDocument, context);
+		assert.strictEqual(second, first);
+		assert.strictEqual(first.namespacePrefix, 'example');
+		assert.strictEqual(first.solidityVersion.version, '0.8.26');
+	});
+
+	test('Parses again when the document changes', async () => {
+		const context = createAnalysisContext({});
+		const textDocument = TextDocument.create(uri, 'solidity', 1, text);
+		const first = await getParsedDocument(textDocument, context);
+
+		TextDocument.update(textDocument, [{ text: text.replace('^0.8.20', '0.8.22') }], 2);
+		const updated = await getParsedDocument(textDocument, context);
+		assert.notStrictEqual(updated, first);
+		assert.strictEqual(updated.solidityVersion.version, '0.8.22');
+		assert.strictEqual(context.documentCache.size, 1);
+
+		// documents that are not open in an editor keep the same version when their text changes
+		const reread = await getParsedDocument(TextDocument.create(uri, 'solidity', 2, text), context);
+		assert.notStrictEqual(reread, updated);
+	});
+
+	test('Does not share entries between caches', async () => {
+		const textDocument = TextDocument.create(uri, 'solidity', 1, text);
+		const first = await getParsedDocument(textDocument, createAnalysisContext({ settings: { namespacePrefix: 'a' } }));
+		const second = await getParsedDocument(textDocument, createAnalysisContext({ settings: { namespacePrefix: 'b' } }));
+		assert.strictEqual(first.namespacePrefix, 'a');
+		assert.strictEqual(second.namespacePrefix, 'b');
+	});
+});
@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import { Diagnostic } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Language } from '@nomicfoundation/slang/language';
+import { NonterminalKind } from '@nomicfoundation/slang/kinds';
+import { createAnalysisContext } from '../analysis';
+import { validateNamespaces } from '../diagnostics';
+import { getCodeActions } from '../codeActions';
+import { inferSolidityVersion } from '../solidityVersion';
+import { readTextDocument } from '../workspace';
+
+import path from 'path';
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+
+/**
+ * Runs the diagnostics and quick fixes over the Solidity files in `testFixture`.
+ *
+ * Expected diagnostics are written as comments in the fixtures: `//~ Code` expects a diagnostic with that code starting on the same line,
+ * and each `^` in `//~^ Code` moves the expectation one line up. A line can have several markers.
+ * Markers for state variables go on a separate line, since quick fixes move variables along with their trailing comments.
+ *
+ * The text produced by each quick fix is compared to a golden file in `testFixture/golden/<fixture>/`.
+ * Run the tests with `UPDATE_GOLDEN=1` to rewrite the golden files after an intended change.
+ */
+
+const FIXTURES_DIR = path.join(__dirname, '..', '..', 'testFixture');
+const GOLDEN_DIR = path.join(FIXTURES_DIR, 'golden');
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+const context = createAnalysisContext({ workspaceFolders: [FIXTURES_DIR], settings: { namespacePrefix: 'example' } });
+
+const fixtures = readdirSync(FIXTURES_DIR).filter(file => file.endsWith('.sol')).sort();
+
+for (const fixture of fixtures) {
+	suite(`Fixture ${fixture}`, () => {
+		let textDocument: TextDocument;
+		let diagnostics: Diagnostic[];
+
+		suiteSetup(async () => {
+			textDocument = await readTextDocument(path.join(FIXTURES_DIR, fixture));
+			diagnostics = await getDiagnostics(textDocument);
+		});
+
+		test('Reports the expected diagnostics', () => {
+			const actual = diagnostics.map(diagnostic => `${diagnostic.range.start.line + 1}: ${diagnostic.code}`).sort(compareMarkers);
+			const expected = parseExpectedDiagnostics(textDocument.getText()).sort(compareMarkers);
+			assert.deepStrictEqual(actual, expected);
+		});
+
+		test('Quick fixes produce the golden text', async () => {
+			const goldenDir = path.join(GOLDEN_DIR, path.basename(fixture, '.sol'));
+			if (UPDATE_GOLDEN) {
+				rmSync(goldenDir, { recursive: true, force: true });
+			}
+
+			const produced: string[] = [];
+			for (const diagnostic of diagnostics) {
+				for (const codeAction of await getCodeActions([diagnostic], textDocument, context)) {
+					const edits = codeAction.edit?.changes?.[textDocument.uri] ?? [];
+					const goldenFile = `${diagnostic.range.start.line + 1}-${toSlug(codeAction.title)}.sol`;
+					const text = TextDocument.applyEdits(textDocument, edits);
+					produced.push(goldenFile);
+
+					const goldenPath = path.join(goldenDir, goldenFile);
+					if (UPDATE_GOLDEN) {
+						mkdirSync(goldenDir, { recursive: true });
+						writeFileSync(goldenPath, text);
+					} else {
+						assert.ok(existsSync(goldenPath), `Missing golden file ${path.relative(FIXTURES_DIR, goldenPath)}. Run the tests with UPDATE_GOLDEN=1 to create it.`);
+						assert.strictEqual(text, readFileSync(goldenPath, 'utf8'), `Quick fix "${codeAction.title}" does not match ${path.relative(FIXTURES_DIR, goldenPath)}`);
+					}
+				}
+			}
+
+			const goldenFiles = existsSync(goldenDir) ? readdirSync(goldenDir) : [];
+			assert.deepStrictEqual(produced.sort(), goldenFiles.sort(), 'Golden files do not match the quick fixes. Run the tests with UPDATE_GOLDEN=1 to update them.');
+		});
+	});
+}
+
+async function getDiagnostics(textDocument: TextDocument): Promise<Diagnostic[]> {
+	const language = new Language(await inferSolidityVersion(textDocument, context));
+	const parseOutput = language.parse(NonterminalKind.SourceUnit, textDocument.getText());
+
+	const diagnostics: Diagnostic[] = [];
+	await validateNamespaces(parseOutput, language, textDocument, context, diagnostics);
+	return diagnostics;
+}
+
+/**
+ * Parses the expected diagnostic markers of a fixture.
+ *
+ * @returns the expected diagnostics as `<line>: <code>`, with 1-based lines
+ */
+function parseExpectedDiagnostics(text: string): string[] {
+	const expected: string[] = [];
+	text.split(/\r?\n/).forEach((line, index) => {
+		for (const match of line.matchAll(/\/\/~(\^*)\s*([\w, ]+?)\s*(?=\/\/~|$)/g)) {
+			const expectedLine = index + 1 - match[1].length;
+			for (const code of match[2].split(',')) {
+				expected.push(`${expectedLine}: ${code.trim()}`);
+			}
+		}
+	});
+	return expected;
+}
+
+function compareMarkers(a: string, b: string) {
+	return parseInt(a) - parseInt(b) || a.localeCompare(b);
+}
+
+function toSlug(title: string) {
+	return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import { inferEol, inferIndent, normalizeLineEndings } from '../helpers/formatting';
+
+suite('Should infer formatting', () => {
+	test('Infers indentation from blocks', () => {
+		assert.strictEqual(inferIndent('contract C {\n\tuint256 x;\n\tfunction f() public {\n\t\tx = 1;\n\t}\n}\n'), '\t');
+		assert.strictEqual(inferIndent('contract C {\n  uint256 x;\n  function f() public {\n    x = 1;\n  }\n}\n'), '  ');
+		assert.strictEqual(inferIndent('  contract C {\n\n      uint256 x;\n  }\n'), '    ');
+	});
+
+	test('Infers indentation from blocks that open before a comment', () => {
+		assert.strictEqual(inferIndent('contract C { // comment\n\tuint256 x;\n}\n'), '\t');
+	});
+
+	test('Does not infer indentation without indented blocks', () => {
+		assert.strictEqual(inferIndent('contract C {}\n'), undefined);
+		assert.strictEqual(inferIndent('contract C {\n}\n'), undefined);
+	});
+
+	test('Infers line endings', () => {
+		assert.strictEqual(inferEol('contract C {\r\n}\r\n'), '\r\n');
+		assert.strictEqual(inferEol('contract C {\n}\n'), '\n');
+		assert.strictEqual(inferEol('contract C {}'), undefined);
+	});
+
+	test('Normalizes line endings of edits', () => {
+		const range = { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } };
+		assert.deepStrictEqual(normalizeLineEndings([{ range, newText: 'a\nb\r\nc' }], '\r\n'), [{ range, newText: 'a\r\nb\r\nc' }]);
+	});
+});
@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import { clearFoundryProjectCache, getFoundryProject, parseFoundryConfig } from '../foundry';
+
+import os from 'os';
+import path from 'path';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+
+const FOUNDRY_TOML = `
+[profile.default]
+src = "contracts"
+libs = ["lib", "dependencies"]
+solc_version = "0.8.24"
+remappings = ["@openzeppelin/=lib/openzeppelin-contracts/"]
+
+[profile.legacy]
+solc = "0.8.20"
+
+[profile.local]
+solc = "/usr/local/bin/solc"
+auto_detect_solc = false
+
+[fmt]
+line_length = 120
+`;
+
+suite('Should read Foundry config', () => {
+	test('Uses defaults without a profile', () => {
+		assert.deepStrictEqual(parseFoundryConfig(''), {
+			solcVersion: undefined,
+			src: 'src',
+			libs: ['lib'],
+			remappings: [],
+		});
+	});
+
+	test('Reads the default profile', () => {
+		assert.deepStrictEqual(parseFoundryConfig(FOUNDRY_TOML), {
+			solcVersion: '0.8.24',
+			src: 'contracts',
+			libs: ['lib', 'dependencies'],
+			remappings: [{ prefix: '@openzeppelin/', target: 'lib/openzeppelin-contracts/' }],
+		});
+	});
+
+	test('Inherits unset settings of other profiles from the default profile', () => {
+		const config = parseFoundryConfig(FOUNDRY_TOML, 'legacy');
+		assert.strictEqual(config.solcVersion, '0.8.20');
+		assert.strictEqual(config.src, 'contracts');
+	});
+
+	test('Ignores compiler paths', () => {
+		const config = parseFoundryConfig(FOUNDRY_TOML, 'local');
+		assert.strictEqual(config.solcVersion, undefined);
+	});
+
+	test('Throws on invalid TOML', () => {
+		assert.throws(() => parseFoundryConfig('[profile.default'));
+	});
+
+	test('Resolves the active profile and remappings of a project', async () => {
+		const root = mkdtempSync(path.join(os.tmpdir(), 'foundry-'));
+		const previousProfile = process.env.FOUNDRY_PROFILE;
+		try {
+			writeFileSync(path.join(root, 'foundry.toml'), FOUNDRY_TOML);
+			writeFileSync(path.join(root, 'remappings.txt'), '@openzeppelin/=node_modules/@openzeppelin/\nforge-std/=lib/forge-std/src/\n');
+			process.env.FOUNDRY_PROFILE = 'legacy';
+			clearFoundryProjectCache();
+
+			const project = await getFoundryProject(root);
+			assert.strictEqual(project?.profile, 'legacy');
+			assert.strictEqual(project?.solcVersion, '0.8.20');
+			// remappings from the profile come first, so that they take precedence over remappings.txt
+			assert.deepStrictEqual(project?.remappings.map(remapping => remapping.target), [
+				'lib/openzeppelin-contracts/',
+				'node_modules/@openzeppelin/',
+				'lib/forge-std/src/',
+			]);
+		} finally {
+			if (previousProfile === undefined) {
+				delete process.env.FOUNDRY_PROFILE;
+			} else {
+				process.env.FOUNDRY_PROFILE = previousProfile;
+			}
+			clearFoundryProjectCache();
+			rmSync(root, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { HardhatSolidityConfig, parseHardhatSolidityConfig, selectHardhatCompiler } from '../hardhat';
+
+suite('Should read Hardhat config', () => {
+	test('Reads the string form', () => {
+		assert.deepStrictEqual(parseHardhatSolidityConfig(`module.exports = { solidity: "0.8.20" };`), { compilers: ['0.8.20'], overrides: {} });
+	});
+
+	test('Reads a single compiler with settings', () => {
+		const config = `
+			const config: HardhatUserConfig = {
+				// solidity: "0.7.6",
+				solidity: {
+					version: '0.8.24',
+					settings: { optimizer: { enabled: true, runs: 200 }, evmVersion: process.env.EVM_VERSION },
+				},
+			};
+			export default config;
+		`;
+		assert.deepStrictEqual(parseHardhatSolidityConfig(config), { compilers: ['0.8.24'], overrides: {} });
+	});
+
+	test('Reads compilers and overrides', () => {
+		const config = `
+			const OLD_VERSION = "0.6.12";
+			module.exports = {
+				solidity: {
+					compilers: [
+						{ version: "0.8.20" },
+						{ version: OLD_VERSION, settings: {} },
+						...extraCompilers,
+					],
+					overrides: {
+						"contracts/Legacy.sol": { version: "0.7.6" },
+					},
+				},
+				networks: { hardhat: { chainId: 1337 } },
+			};
+		`;
+		assert.deepStrictEqual(parseHardhatSolidityConfig(config), {
+			compilers: ['0.8.20', '0.6.12'],
+			overrides: { 'contracts/Legacy.sol': '0.7.6' },
+		});
+	});
+
+	test('Returns undefined if the compilers cannot be read statically', () => {
+		assert.strictEqual(parseHardhatSolidityConfig(`module.exports = { solidity: getSolidityConfig() };`), undefined);
+		assert.strictEqual(parseHardhatSolidityConfig(`module.exports = { networks: {} };`), undefined);
+	});
+});
+
+suite('Should select Hardhat compilers', () => {
+	const solidity: HardhatSolidityConfig = {
+		compilers: ['0.6.12', '0.8.20', '0.8.24'],
+		overrides: { 'contracts/Legacy.sol': '0.7.6' },
+	};
+
+	test('Selects the newest compiler that satisfies the pragmas', () => {
+		assert.strictEqual(selectHardhatCompiler(solidity, 'contracts/Token.sol', ['^0.8.0']), '0.8.24');
+		assert.strictEqual(selectHardhatCompiler(solidity, 'contracts/Token.sol', ['>=0.6.0 <0.8.0']), '0.6.12');
+		assert.strictEqual(selectHardhatCompiler(solidity, 'contracts/Token.sol', ['^0.8.0', '<0.8.24']), '0.8.20');
+		assert.strictEqual(selectHardhatCompiler(solidity, 'contracts/Token.sol', []), '0.8.24');
+	});
+
+	test('Uses overrides by source name', () => {
+		assert.strictEqual(selectHardhatCompiler(solidity, 'contracts/Legacy.sol', ['^0.8.0']), '0.7.6');
+	});
+
+	test('Returns undefined if no compiler satisfies the pragmas', () => {
+		assert.strictEqual(selectHardhatCompiler(solidity, 'contracts/Token.sol', ['^0.5.0']), undefined);
+	});
+});
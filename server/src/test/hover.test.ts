@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import { Hover, MarkupContent } from 'vscode-languageserver';
+import { Position, TextDocument } from 'vscode-languageserver-textdocument';
+import { getHoverInfo } from '../analysis';
+import { calculateERC7201StorageLocation } from '../namespace';
+
+function token(namespaceId: string, location: string) {
+	return `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+contract Token {
+    /// @custom:storage-location erc7201:${namespaceId}
+    struct TokenStorage {
+        uint256 totalSupply;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("${namespaceId}")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant TokenStorageLocation = ${location};
+}
+`;
+}
+
+async function hoverAt(text: string, search: string): Promise<Hover | undefined> {
+	const textDocument = TextDocument.create('file:///project/Token.sol', 'solidity', 0, text);
+	const index = text.indexOf(search);
+	assert.notStrictEqual(index, -1, `${search} not found`);
+	const position: Position = textDocument.positionAt(index);
+	return getHoverInfo({ filePath: '/project/Token.sol', text }, position);
+}
+
+function valueOf(hover: Hover | undefined): string {
+	assert.ok(hover !== undefined, 'Expected a hover');
+	return (hover.contents as MarkupContent).value;
+}
+
+suite('Should show the storage location on hover', () => {
+	const location = calculateERC7201StorageLocation('example.Token');
+
+	test('Shows the computed slot on the annotation', async () => {
+		const hover = await hoverAt(token('example.Token', location), 'erc7201:');
+		const value = valueOf(hover);
+		assert.ok(value.includes('**ERC-7201 namespace** `example.Token`'));
+		assert.ok(value.includes('| Storage slot | `0x51eed31d981c267b21d92d46d1e31cfd1b19caf8c7aaadac9cda2ac16bfc2600` |'));
+		assert.deepStrictEqual(hover!.range, { start: { line: 4, character: 4 }, end: { line: 4, character: 54 } });
+	});
+
+	test('Shows the computed slot on the location constant', async () => {
+		const value = valueOf(await hoverAt(token('example.Token', location), 'TokenStorageLocation ='));
+		assert.ok(value.includes(`| Storage slot | \`${location}\` |`));
+		assert.ok(value.includes('Constant matches the annotation `erc7201:example.Token`.'));
+	});
+
+	test('Shows the mismatch if the constant does not match the annotation', async () => {
+		const value = valueOf(await hoverAt(token('example.Token', calculateERC7201StorageLocation('example.Other')), 'TokenStorageLocation ='));
+		assert.ok(value.includes(`| Storage slot | \`${location}\` |`));
+		assert.ok(value.includes('- ERC7201 storage location hash does not match comment'));
+		assert.ok(!value.includes('Constant matches the annotation'));
+	});
+
+	test('Keeps leading zeros of the intermediate hash and the slot', async () => {
+		// keccak256("example.Token56") - 1 starts with a zero byte, and so does the slot of example.Token37
+		const intermediate = valueOf(await hoverAt(token('example.Token56', calculateERC7201StorageLocation('example.Token56')), 'erc7201:'));
+		assert.ok(intermediate.includes('| `keccak256(id) - 1` | `0x00d218a6525948c2a9b36f1d2a2351768e9e51ca169da13fc52302038a3c3f31` |'));
+		assert.ok(intermediate.includes('| Storage slot | `0x3f15f63ad4276c58cf76a03734948857eb6959470c9a51c1ae3025d487989c00` |'));
+
+		const slot = valueOf(await hoverAt(token('example.Token37', calculateERC7201StorageLocation('example.Token37')), 'erc7201:'));
+		assert.ok(slot.includes('| Storage slot | `0x00e7dd9487454983578d70ebe8dbba10adc526314d18b00ff21f5cc871ff4d00` |'));
+	});
+
+	test('Does not show a hover elsewhere', async () => {
+		assert.strictEqual(await hoverAt(token('example.Token', location), 'totalSupply'), undefined);
+	});
+});
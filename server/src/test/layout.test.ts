@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { combineStorageLayouts, compareStorageItems, StorageItem } from '../layout';
+
+function items(...declarations: string[]): StorageItem[] {
+	return declarations.map((declaration, line) => {
+		const [typeName, name] = declaration.split(' ');
+		return { name, typeName, range: { start: { line, character: 0 }, end: { line, character: declaration.length } } };
+	});
+}
+
+function compare(original: StorageItem[], updated: StorageItem[]) {
+	return compareStorageItems(original, updated, 'variable').map(change => `${change.kind} ${change.name}${change.range !== undefined ? ` @${change.range.start.line}` : ''}`);
+}
+
+suite('Should compare storage items', () => {
+	const original = items('uint256 a', 'address b', 'bool c');
+
+	test('Allows appending at the end', () => {
+		assert.deepStrictEqual(compare(original, items('uint256 a', 'address b', 'bool c', 'uint256 d')), []);
+		assert.deepStrictEqual(compare(original, original), []);
+	});
+
+	test('Reports reordered items', () => {
+		assert.deepStrictEqual(compare(original, items('address b', 'uint256 a', 'bool c')), ['reordered b @0', 'reordered a @1']);
+	});
+
+	test('Reports retyped items', () => {
+		assert.deepStrictEqual(compare(original, items('uint256 a', 'uint256 b', 'bool c')), ['retyped b @1']);
+	});
+
+	test('Reports renamed items with the same type', () => {
+		assert.deepStrictEqual(compare(original, items('uint256 a', 'address owner', 'bool c')), ['renamed owner @1']);
+	});
+
+	test('Reports items inserted before the end', () => {
+		assert.deepStrictEqual(compare(original, items('uint256 a', 'uint256 x', 'address b', 'bool c')), ['inserted x @1']);
+		assert.deepStrictEqual(compare(original, items('uint256 x', 'uint256 a', 'address b', 'uint256 y', 'bool c')), ['inserted x @0', 'inserted y @3']);
+	});
+
+	test('Reports deleted items', () => {
+		assert.deepStrictEqual(compare(original, items('uint256 a', 'address b')), ['deleted c']);
+		assert.deepStrictEqual(compare(original, items('uint256 a', 'uint256 x', 'bool c')), ['inserted x @1', 'deleted b']);
+	});
+});
+
+suite('Should combine the storage layouts of a linearization', () => {
+	test('Orders the most base contract first and moves inherited items to the given range', () => {
+		const range = { start: { line: 9, character: 0 }, end: { line: 9, character: 1 } };
+		const namespace = { namespaceId: 'example.V1', structName: 'V1Storage', fields: items('uint256 value'), range: items('uint256 x')[0].range };
+		const combined = combineStorageLayouts([
+			{ variables: items('uint256 extra'), namespaces: [] },
+			{ variables: items('uint256 a', 'address b'), namespaces: [namespace] },
+		], range);
+
+		assert.deepStrictEqual(combined.variables.map(variable => variable.name), ['a', 'b', 'extra']);
+		assert.deepStrictEqual(combined.variables.map(variable => variable.range.start.line), [9, 9, 0]);
+		assert.deepStrictEqual(combined.namespaces.map(namespace => [namespace.namespaceId, namespace.range, namespace.fields[0].range]), [['example.V1', range, range]]);
+	});
+});
@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import { Language } from '@nomicfoundation/slang/language';
+import { NonterminalKind } from '@nomicfoundation/slang/kinds';
+import { NonterminalNode } from '@nomicfoundation/slang/cst';
+import { findStateVariableReferences } from '../helpers/scope';
+import { getDeclaredMutability, getFunctionMutabilities, getRequiredMutability } from '../helpers/mutability';
+
+const language = new Language('0.8.20');
+
+const source = [
+	'library Sets {',
+	'	struct Set { uint256[] values; }',
+	'	function add(Set storage set, uint256 value) internal { set.values.push(value); }',
+	'	function length(Set storage set) internal view returns (uint256) { return set.values.length; }',
+	'}',
+	'library Values {',
+	'	function sum(uint256[] storage values) internal view returns (uint256) { return values.length; }',
+	'	function sum(uint256 value) internal returns (uint256) { return value; }',
+	'	function sum(uint256[] storage values, uint256 value) internal { values.push(value); }',
+	'}',
+	'contract C {',
+	'	using Sets for Sets.Set;',
+	'	uint256 count;',
+	'	uint256[] items;',
+	'	Sets.Set set;',
+	'	function read() public view returns (uint256) { return count + items[0] + set.length(); }',
+	'	function assign() public { count = 1; }',
+	'	function assignTuple() public { (count, items[0]) = (1, 2); }',
+	'	function increment() public { items[0]++; }',
+	'	function remove() public { delete items; }',
+	'	function push() public { items.push(1); }',
+	'	function attached() public { set.add(1); }',
+	'	function argument() public { Sets.add(set, 1); }',
+	'	function named() public { Sets.add({set: set, value: 1}); }',
+	'	function overloaded() public view returns (uint256) { return Values.sum(items); }',
+	'	function overloadedWrite() public { Values.sum(items, 1); }',
+	'	function unresolved() external payable { unknown(set); }',
+	'}',
+].join('\n');
+
+/**
+ * Gets the declared and required mutability of each function in the contract, keyed by function name.
+ */
+function getMutabilities(): Record<string, string> {
+	const parseOutput = language.parse(NonterminalKind.SourceUnit, source);
+	assert.ok(parseOutput.isValid, parseOutput.errors().map(error => error.message).join('\n'));
+	const functionMutabilities = getFunctionMutabilities(parseOutput.createTreeCursor());
+
+	const result: Record<string, string> = {};
+	const contractCursor = parseOutput.createTreeCursor();
+	assert.ok(contractCursor.goToNextNonterminalWithKind(NonterminalKind.ContractDefinition));
+	const functionCursor = contractCursor.spawn();
+	while (functionCursor.goToNextNonterminalWithKind(NonterminalKind.FunctionDefinition)) {
+		const nameCursor = functionCursor.spawn();
+		assert.ok(nameCursor.goToNextNonterminalWithKind(NonterminalKind.FunctionName));
+		const name = (nameCursor.node() as NonterminalNode).unparse().trim();
+
+		const references = findStateVariableReferences(functionCursor, ['count', 'items', 'set']);
+		result[name] = `${getDeclaredMutability(functionCursor).mutability} ${getRequiredMutability(references, new Map([['items', 'uint256[]'], ['set', 'Sets.Set']]), functionMutabilities)}`;
+	}
+	return result;
+}
+
+suite('Should compute mutability', () => {
+	test('Computes declared and required mutability of each function', () => {
+		assert.deepStrictEqual(getMutabilities(), {
+			read: 'view view',
+			assign: 'nonpayable nonpayable',
+			assignTuple: 'nonpayable nonpayable',
+			increment: 'nonpayable nonpayable',
+			remove: 'nonpayable nonpayable',
+			push: 'nonpayable nonpayable',
+			attached: 'nonpayable nonpayable',
+			argument: 'nonpayable nonpayable',
+			named: 'nonpayable nonpayable',
+			overloaded: 'view view',
+			overloadedWrite: 'nonpayable nonpayable',
+			unresolved: 'payable view',
+		});
+	});
+});
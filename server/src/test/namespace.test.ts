@@ -0,0 +1,19 @@
+import * as assert from 'assert';
+import { calculateERC7201StorageLocation, calculateERC7201StorageLocationSteps, getNamespaceId } from '../namespace';
+
+suite('Should compute namespaces', () => {
+	test('Computes the storage location of the ERC-7201 example', () => {
+		assert.strictEqual(calculateERC7201StorageLocation('example.main'), '0x183a6125c38840424c4a85fa12bab2ab606c4b6d0e7cc73c0c06ba5300eab500');
+	});
+
+	test('Returns the intermediate steps of the calculation', () => {
+		const steps = calculateERC7201StorageLocationSteps('example.main');
+		assert.strictEqual(steps.namespaceId, 'example.main');
+		assert.match(steps.idHashMinusOne, /^0x[0-9a-f]{64}$/);
+		assert.strictEqual(steps.location, calculateERC7201StorageLocation('example.main'));
+	});
+
+	test('Prefixes namespace ids with the namespace prefix', () => {
+		assert.strictEqual(getNamespaceId('example', 'Token'), 'example.Token');
+	});
+});
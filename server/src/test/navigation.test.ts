@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import { Location } from 'vscode-languageserver';
+import { Position, TextDocument } from 'vscode-languageserver-textdocument';
+import { findDefinition, findReferences } from '../analysis';
+
+const uri = 'file:///project/contracts/Token.sol';
+const textDocument = TextDocument.create(uri, 'solidity', 1, `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+
+contract Token is Initializable {
+    /// @custom:storage-location erc7201:example.Token
+    struct TokenStorage {
+        uint256 totalSupply;
+        mapping(address => uint256) balances;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("example.Token")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant TokenStorageLocation = 0x51eed31d981c267b21d92d46d1e31cfd1b19caf8c7aaadac9cda2ac16bfc2600;
+
+    function _getTokenStorage() private pure returns (TokenStorage storage $) {
+        assembly {
+            $.slot := TokenStorageLocation
+        }
+    }
+
+    modifier onlyHolder(uint256 balance) {
+        _;
+    }
+
+    function mint(address to, uint256 amount) public onlyHolder(_getTokenStorage().balances[to]) {
+        TokenStorage storage $ = _getTokenStorage();
+        $.totalSupply += amount;
+        $.balances[to] += amount;
+    }
+
+    function balanceOf(address account) public view returns (uint256) {
+        mapping(address => uint256) storage balances = _getTokenStorage().balances;
+        return balances[account];
+    }
+}
+`);
+
+/**
+ * Gets the position of the given occurrence of a string in the document, offset by some characters.
+ */
+function positionOf(search: string, occurrence = 0, offset = 0): Position {
+	let index = -1;
+	for (let i = 0; i <= occurrence; i++) {
+		index = textDocument.getText().indexOf(search, index + 1);
+		assert.notStrictEqual(index, -1, `${search} not found`);
+	}
+	return textDocument.positionAt(index + offset);
+}
+
+function printLocation(location: Location) {
+	return `${location.range.start.line + 1}:${textDocument.getText(location.range)}`;
+}
+
+suite('Should navigate namespaces', () => {
+	test('Goes from field accesses to the struct field', async () => {
+		const definition = await findDefinition(textDocument, positionOf('$.totalSupply', 0, 2));
+		assert.strictEqual(printLocation(definition!), '9:totalSupply');
+
+		const fromGetter = await findDefinition(textDocument, positionOf('_getTokenStorage().balances', 0, 20));
+		assert.strictEqual(printLocation(fromGetter!), '10:balances');
+	});
+
+	test('Finds all accesses to a field', async () => {
+		const references = await findReferences(textDocument, positionOf('balances;'), true);
+		assert.deepStrictEqual(references.map(printLocation), ['10:balances', '26:balances', '29:balances', '33:balances']);
+
+		const withoutDeclaration = await findReferences(textDocument, positionOf('$.balances', 0, 2), false);
+		assert.deepStrictEqual(withoutDeclaration.map(printLocation), ['26:balances', '29:balances', '33:balances']);
+	});
+
+	test('Goes from the location constant to the annotation', async () => {
+		const constant = await findDefinition(textDocument, positionOf('TokenStorageLocation', 1));
+		assert.strictEqual(printLocation(constant!), '14:TokenStorageLocation');
+
+		const annotation = await findDefinition(textDocument, constant!.range.start);
+		assert.strictEqual(printLocation(annotation!), '7:example.Token');
+
+		const references = await findReferences(textDocument, annotation!.range.start, true);
+		assert.deepStrictEqual(references.map(printLocation), ['7:example.Token', '13:example.Token', '14:TokenStorageLocation', '18:TokenStorageLocation']);
+	});
+
+	test('Ignores other identifiers', async () => {
+		assert.strictEqual(await findDefinition(textDocument, positionOf('amount;')), undefined);
+		assert.deepStrictEqual(await findReferences(textDocument, positionOf('balances[account]'), true), []);
+	});
+});
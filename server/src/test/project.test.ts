@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { analyze, SOLIDITY_VERSION_MISMATCH } from '../analysis';
+import { clearFoundryProjectCache } from '../foundry';
+import { clearHardhatProjectCache } from '../hardhat';
+import { clearProjectConfigCache, getProjectFolder } from '../project';
+
+import os from 'os';
+import path from 'path';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+
+const FOUNDRY_TOML = `
+[profile.default]
+solc_version = "0.8.20"
+`;
+
+const HARDHAT_CONFIG = `
+module.exports = {
+  solidity: "0.8.24",
+};
+`;
+
+function source(filePath: string, pragma: string) {
+	return {
+		filePath,
+		text: `// SPDX-License-Identifier: MIT
+pragma solidity ${pragma};
+
+contract C {}
+`,
+	};
+}
+
+suite('Should resolve the project of each document', () => {
+	let workspaceFolder: string;
+	let foundryProject: string;
+	let hardhatProject: string;
+
+	suiteSetup(() => {
+		workspaceFolder = mkdtempSync(path.join(os.tmpdir(), 'monorepo-'));
+		foundryProject = path.join(workspaceFolder, 'packages', 'foundry');
+		hardhatProject = path.join(workspaceFolder, 'packages', 'hardhat');
+
+		mkdirSync(path.join(foundryProject, 'src'), { recursive: true });
+		mkdirSync(path.join(hardhatProject, 'contracts', 'utils'), { recursive: true });
+		writeFileSync(path.join(foundryProject, 'foundry.toml'), FOUNDRY_TOML);
+		writeFileSync(path.join(hardhatProject, 'hardhat.config.js'), HARDHAT_CONFIG);
+
+		clearProjectConfigCache();
+		clearFoundryProjectCache();
+		clearHardhatProjectCache();
+	});
+
+	suiteTeardown(() => {
+		clearProjectConfigCache();
+		clearFoundryProjectCache();
+		clearHardhatProjectCache();
+		rmSync(workspaceFolder, { recursive: true, force: true });
+	});
+
+	test('Finds the nearest project folder above a document', async () => {
+		assert.strictEqual(await getProjectFolder(path.join(foundryProject, 'src', 'A.sol'), [workspaceFolder]), foundryProject);
+		assert.strictEqual(await getProjectFolder(path.join(hardhatProject, 'contracts', 'utils', 'B.sol'), [workspaceFolder]), hardhatProject);
+	});
+
+	test('Falls back to the workspace folder outside of projects', async () => {
+		assert.strictEqual(await getProjectFolder(path.join(workspaceFolder, 'scripts', 'C.sol'), [workspaceFolder]), workspaceFolder);
+	});
+
+	test('Does not report a mismatch if the configured versions satisfy the pragmas', async () => {
+		const foundryResult = await analyze(source(path.join(foundryProject, 'src', 'A.sol'), '^0.8.20'), { workspaceFolders: [workspaceFolder] });
+		const hardhatResult = await analyze(source(path.join(hardhatProject, 'contracts', 'B.sol'), '^0.8.24'), { workspaceFolders: [workspaceFolder] });
+		assert.deepStrictEqual([...foundryResult.diagnostics, ...hardhatResult.diagnostics], []);
+	});
+
+	test('Reports a configured version that does not satisfy the pragma', async () => {
+		const { diagnostics } = await analyze(source(path.join(foundryProject, 'src', 'A.sol'), '^0.8.24'), { workspaceFolders: [workspaceFolder] });
+		assert.strictEqual(diagnostics.length, 1);
+		assert.strictEqual(diagnostics[0].code, SOLIDITY_VERSION_MISMATCH);
+		assert.strictEqual(diagnostics[0].message, 'Solidity version 0.8.20 from foundry.toml does not satisfy pragma `^0.8.24`');
+		assert.deepStrictEqual(diagnostics[0].range, { start: { line: 1, character: 16 }, end: { line: 1, character: 23 } });
+	});
+
+	test('Reports a Hardhat config without a compiler for the pragma', async () => {
+		const { diagnostics } = await analyze(source(path.join(hardhatProject, 'contracts', 'B.sol'), '0.8.20'), { workspaceFolders: [workspaceFolder] });
+		assert.deepStrictEqual(diagnostics.map(diagnostic => diagnostic.message), ['No compiler in hardhat.config.js satisfies pragma `0.8.20`']);
+	});
+});
@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import { TextDocumentEdit, WorkspaceEdit } from 'vscode-languageserver';
+import { Position, TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { getNamespaceIdToRename, InvalidNamespaceIdError, NAMESPACE_ID_IN_USE_ANNOTATION, renameNamespace } from '../analysis';
+import { calculateERC7201StorageLocation } from '../namespace';
+
+import os from 'os';
+import path from 'path';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+
+const TOKEN = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+contract Token {
+    /// @custom:storage-location erc7201:example.Token
+    struct TokenStorage {
+        uint256 totalSupply;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("example.Token")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant TokenStorageLocation = 0x51eed31d981c267b21d92d46d1e31cfd1b19caf8c7aaadac9cda2ac16bfc2600;
+}
+`;
+
+const VAULT = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+contract Vault {
+    /// @custom:storage-location erc7201:example.Vault
+    struct VaultStorage {
+        uint256 assets;
+    }
+}
+`;
+
+function positionOf(textDocument: TextDocument, search: string): Position {
+	const index = textDocument.getText().indexOf(search);
+	assert.notStrictEqual(index, -1, `${search} not found`);
+	return textDocument.positionAt(index);
+}
+
+function applyEdit(textDocument: TextDocument, workspaceEdit: WorkspaceEdit) {
+	const [documentEdit] = workspaceEdit.documentChanges as TextDocumentEdit[];
+	assert.strictEqual(documentEdit.textDocument.uri, textDocument.uri);
+	return TextDocument.applyEdits(textDocument, documentEdit.edits);
+}
+
+suite('Should rename namespace ids', () => {
+	let workspaceFolder: string;
+	let textDocument: TextDocument;
+
+	suiteSetup(() => {
+		workspaceFolder = mkdtempSync(path.join(os.tmpdir(), 'rename-'));
+		mkdirSync(path.join(workspaceFolder, 'contracts'));
+		writeFileSync(path.join(workspaceFolder, 'contracts', 'Token.sol'), TOKEN);
+		writeFileSync(path.join(workspaceFolder, 'contracts', 'Vault.sol'), VAULT);
+		textDocument = TextDocument.create(URI.file(path.join(workspaceFolder, 'contracts', 'Token.sol')).toString(), 'solidity', 1, TOKEN);
+	});
+
+	suiteTeardown(() => {
+		rmSync(workspaceFolder, { recursive: true, force: true });
+	});
+
+	test('Renames from the annotation or the hash comment', async () => {
+		const fromAnnotation = await getNamespaceIdToRename(textDocument, positionOf(textDocument, 'example.Token'));
+		assert.strictEqual(fromAnnotation?.placeholder, 'example.Token');
+		assert.strictEqual(textDocument.getText(fromAnnotation.range), 'example.Token');
+
+		const fromComment = await getNamespaceIdToRename(textDocument, positionOf(textDocument, 'example.Token")'));
+		assert.strictEqual(fromComment?.range.start.line, 9);
+
+		assert.strictEqual(await getNamespaceIdToRename(textDocument, positionOf(textDocument, 'TokenStorageLocation')), undefined);
+	});
+
+	test('Updates the annotation, hash comment and location constant together', async () => {
+		const workspaceEdit = await renameNamespace(textDocument, positionOf(textDocument, 'example.Token'), 'example.NewToken', { workspaceFolders: [workspaceFolder] });
+		assert.strictEqual(workspaceEdit?.changeAnnotations, undefined);
+
+		const renamed = applyEdit(textDocument, workspaceEdit!);
+		assert.strictEqual(renamed, TOKEN
+			.replace(/example\.Token/g, 'example.NewToken')
+			.replace('0x51eed31d981c267b21d92d46d1e31cfd1b19caf8c7aaadac9cda2ac16bfc2600', calculateERC7201StorageLocation('example.NewToken'))
+		);
+	});
+
+	test('Asks for confirmation if the id is used elsewhere in the workspace', async () => {
+		const workspaceEdit = await renameNamespace(textDocument, positionOf(textDocument, 'example.Token'), 'example.Vault', { workspaceFolders: [workspaceFolder] });
+		const annotation = workspaceEdit?.changeAnnotations?.[NAMESPACE_ID_IN_USE_ANNOTATION];
+		assert.strictEqual(annotation?.needsConfirmation, true);
+		assert.strictEqual(annotation.description, `Used by Vault in ${path.join('contracts', 'Vault.sol')}`);
+
+		const [documentEdit] = workspaceEdit!.documentChanges as TextDocumentEdit[];
+		assert.ok(documentEdit.edits.every(edit => 'annotationId' in edit && edit.annotationId === NAMESPACE_ID_IN_USE_ANNOTATION));
+	});
+
+	test('Rejects invalid ids', async () => {
+		await assert.rejects(renameNamespace(textDocument, positionOf(textDocument, 'example.Token'), 'example Token'), InvalidNamespaceIdError);
+		await assert.rejects(renameNamespace(textDocument, positionOf(textDocument, 'example.Token'), ''), InvalidNamespaceIdError);
+	});
+});
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import { DiagnosticSeverity } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { formatReport } from '../report';
+import { fixTextDocument, globToRegExp } from '../cli';
+
+const PLAIN = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+contract Plain {
+    uint256 count;
+}
+`;
+
+const UPGRADEABLE = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @custom:oz-upgrades
+contract Upgradeable {
+    uint256 count = 1;
+}
+`;
+
+const results = [{
+	file: 'src/Token.sol',
+	diagnostics: [
+		{ range: { start: { line: 4, character: 4 }, end: { line: 4, character: 18 } }, severity: DiagnosticSeverity.Warning, code: 'VariableHasInitialValue', message: 'Variable has initial value' },
+		{ range: { start: { line: 2, character: 9 }, end: { line: 2, character: 14 } }, severity: DiagnosticSeverity.Hint, code: 'ContractCanBeNamespaced', message: 'Contract can be namespaced.' },
+	],
+}];
+
+suite('Should format reports', () => {
+	test('Formats text with 1-based positions and a summary', () => {
+		assert.strictEqual(formatReport(results, 'text'), [
+			'src/Token.sol:5:5: warning: Variable has initial value [VariableHasInitialValue]',
+			'src/Token.sol:3:10: hint: Contract can be namespaced. [ContractCanBeNamespaced]',
+			'1 problem (0 errors, 1 warning), 1 hint',
+			'',
+		].join('\n'));
+	});
+
+	test('Does not count hints as problems', () => {
+		assert.strictEqual(formatReport([{ file: results[0].file, diagnostics: [results[0].diagnostics[1]] }], 'text'), [
+			'src/Token.sol:3:10: hint: Contract can be namespaced. [ContractCanBeNamespaced]',
+			'0 problems (0 errors, 0 warnings), 1 hint',
+			'',
+		].join('\n'));
+	});
+
+	test('Formats SARIF results with rule indices', () => {
+		const sarif = JSON.parse(formatReport(results, 'sarif'));
+		assert.strictEqual(sarif.version, '2.1.0');
+		assert.deepStrictEqual(sarif.runs[0].tool.driver.rules, [{ id: 'VariableHasInitialValue' }, { id: 'ContractCanBeNamespaced' }]);
+		assert.deepStrictEqual(sarif.runs[0].results.map((result: any) => [result.ruleIndex, result.level]), [[0, 'warning'], [1, 'note']]);
+		assert.deepStrictEqual(sarif.runs[0].results[1].locations[0].physicalLocation.region, { startLine: 3, startColumn: 10, endLine: 3, endColumn: 15 });
+	});
+
+	test('Matches globs against relative paths', () => {
+		assert.ok(globToRegExp('src/**/*.sol').test('src/Token.sol'));
+		assert.ok(globToRegExp('src/**/*.sol').test('src/token/ERC20.sol'));
+		assert.ok(!globToRegExp('src/*.sol').test('src/token/ERC20.sol'));
+		assert.ok(globToRegExp('./C?.sol').test('C2.sol'));
+		assert.ok(!globToRegExp('*.sol').test('A.sold'));
+	});
+});
+
+suite('Should fix files from the command line', () => {
+	const analysisOptions = { settings: { namespacePrefix: 'example' }, relatedInformation: false };
+
+	function fix(text: string, rules: string[]) {
+		return fixTextDocument(TextDocument.create('file:///C.sol', 'solidity', 0, text), rules, analysisOptions);
+	}
+
+	test('Does not namespace contracts that are not upgradeable by default', async () => {
+		const { textDocument, fixCount } = await fix(PLAIN, []);
+		assert.strictEqual(fixCount, 0);
+		assert.strictEqual(textDocument.getText(), PLAIN);
+	});
+
+	test('Namespaces contracts that are not upgradeable if the rule is given', async () => {
+		const { textDocument } = await fix(PLAIN, ['ContractCanBeNamespaced']);
+		assert.ok(textDocument.getText().includes('@custom:storage-location erc7201:example.Plain'));
+	});
+
+	test('Does not change the storage layout of upgradeable contracts by default', async () => {
+		const { textDocument, fixCount } = await fix(UPGRADEABLE, []);
+		assert.strictEqual(fixCount, 0);
+		assert.strictEqual(textDocument.getText(), UPGRADEABLE);
+	});
+
+	test('Namespaces upgradeable contracts if the rule is given', async () => {
+		const { textDocument } = await fix(UPGRADEABLE, ['ContractCanBeNamespaced']);
+		assert.ok(textDocument.getText().includes('@custom:storage-location erc7201:example.Upgradeable'));
+	});
+});
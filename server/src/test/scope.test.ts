@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+import { Language } from '@nomicfoundation/slang/language';
+import { NonterminalKind } from '@nomicfoundation/slang/kinds';
+import { findStateVariableReferences } from '../helpers/scope';
+
+const language = new Language('0.8.20');
+
+/**
+ * Parses a contract and returns the source text of each reference to the given state variables in the definition of the given kind,
+ * prefixed with the line number of the reference.
+ */
+function findReferences(source: string, definitionKind: NonterminalKind, stateVariableNames: string[]): string[] {
+	const parseOutput = language.parse(NonterminalKind.SourceUnit, source);
+	assert.ok(parseOutput.isValid, parseOutput.errors().map(error => error.message).join('\n'));
+
+	const cursor = parseOutput.createTreeCursor();
+	assert.ok(cursor.goToNextNonterminalWithKind(definitionKind));
+
+	const lines = source.split('\n');
+	return findStateVariableReferences(cursor, stateVariableNames).map(reference => {
+		const line = lines.findIndex((_, i) => lines.slice(0, i + 1).join('\n').length >= reference.textRange.start.utf16);
+		return `${line}:${source.substring(reference.textRange.start.utf16, reference.textRange.end.utf16)}`;
+	});
+}
+
+suite('Should find state variable references', () => {
+	test('Finds references in expressions', () => {
+		const source = [
+			'contract C {',
+			'	uint256 x;',
+			'	function f() public returns (uint256) {',
+			'		x = x + 1;',
+			'		return x;',
+			'	}',
+			'}',
+		].join('\n');
+		assert.deepStrictEqual(findReferences(source, NonterminalKind.FunctionDefinition, ['x']), ['3:x', '3:x', '4:x']);
+	});
+
+	test('Ignores parameters and return variables that shadow state variables', () => {
+		const source = [
+			'contract C {',
+			'	uint256 x;',
+			'	uint256 y;',
+			'	function f(uint256 x) public returns (uint256 y) {',
+			'		y = x;',
+			'	}',
+			'}',
+		].join('\n');
+		assert.deepStrictEqual(findReferences(source, NonterminalKind.FunctionDefinition, ['x', 'y']), []);
+	});
+
+	test('Ignores local variables only after their declaration and within their block', () => {
+		const source = [
+			'contract C {',
+			'	uint256 x;',
+			'	function f() public {',
+			'		x = 1;',
+			'		{',
+			'			uint256 x = x + 1;',
+			'			x++;',
+			'		}',
+			'		x = 2;',
+			'		for (uint256 x = 0; x < 10; x++) {}',
+			'		(uint256 a, uint256 x2) = (x, x);',
+			'	}',
+			'}',
+		].join('\n');
+		assert.deepStrictEqual(findReferences(source, NonterminalKind.FunctionDefinition, ['x']), ['3:x', '5:x', '8:x', '10:x', '10:x']);
+	});
+
+	test('Ignores variables declared by tuple deconstruction', () => {
+		const source = [
+			'contract C {',
+			'	uint256 x;',
+			'	uint256 y;',
+			'	function f() public {',
+			'		(uint256 x, uint256 y) = g();',
+			'		x + y;',
+			'	}',
+			'	function g() internal returns (uint256, uint256) {}',
+			'}',
+		].join('\n');
+		assert.deepStrictEqual(findReferences(source, NonterminalKind.FunctionDefinition, ['x', 'y']), []);
+	});
+
+	test('Ignores member access and named arguments', () => {
+		const source = [
+			'contract C {',
+			'	uint256 balance;',
+			'	struct S { uint256 balance; }',
+			'	function f(S memory s) public {',
+			'		s.balance = address(this).balance + balance;',
+			'		g({ balance: balance });',
+			'	}',
+			'	function g(uint256 balance) internal {}',
+			'}',
+		].join('\n');
+		assert.deepStrictEqual(findReferences(source, NonterminalKind.FunctionDefinition, ['balance']), ['4:balance', '5:balance']);
+	});
+
+	test('Finds references in modifiers and modifier invocations', () => {
+		const source = [
+			'contract C {',
+			'	address owner;',
+			'	uint256 x;',
+			'	modifier onlyOwner(uint256 x) {',
+			'		require(msg.sender == owner && x > 0);',
+			'		_;',
+			'	}',
+			'	function f() public onlyOwner(x) {',
+			'		owner = address(0);',
+			'	}',
+			'}',
+		].join('\n');
+		assert.deepStrictEqual(findReferences(source, NonterminalKind.ModifierDefinition, ['owner', 'x']), ['4:owner']);
+		assert.deepStrictEqual(findReferences(source, NonterminalKind.FunctionDefinition, ['owner', 'x']), ['7:x', '8:owner']);
+	});
+});
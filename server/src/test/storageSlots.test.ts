@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import { Language } from '@nomicfoundation/slang/language';
+import { NonterminalKind } from '@nomicfoundation/slang/kinds';
+import { NonterminalNode } from '@nomicfoundation/slang/cst';
+import { StateVariableDefinition } from '@nomicfoundation/slang/ast';
+import { collectTypeDefinitions, countStorageSlots, getStorageGapSize, getStorageSize, StorageSize } from '../storageSlots';
+
+/**
+ * Parses the state variables in the source, and returns them with the type definitions of the source.
+ */
+function parseStateVariables(source: string) {
+	const parseOutput = new Language('0.8.20').parse(NonterminalKind.SourceUnit, source);
+	assert.ok(parseOutput.isValid, parseOutput.errors().map(error => error.message).join('\n'));
+
+	const stateVars: StateVariableDefinition[] = [];
+	const cursor = parseOutput.createTreeCursor();
+	while (cursor.goToNextNonterminalWithKind(NonterminalKind.StateVariableDefinition)) {
+		stateVars.push(new StateVariableDefinition(cursor.node() as NonterminalNode));
+	}
+	return { stateVars, definitions: collectTypeDefinitions(parseOutput) };
+}
+
+function countSlots(source: string) {
+	const { stateVars, definitions } = parseStateVariables(source);
+	const sizes = stateVars.map(stateVar => getStorageSize(stateVar.typeName, definitions));
+	return sizes.some(size => size === undefined) ? undefined : countStorageSlots(sizes as StorageSize[]);
+}
+
+suite('Should count storage slots', () => {
+	test('Packs adjacent value types', () => {
+		assert.strictEqual(countSlots('contract C { uint128 a; uint128 b; address c; bool d; bytes4 e; uint256 f; }'), 3);
+	});
+
+	test('Starts a new slot for and after structs and arrays', () => {
+		assert.strictEqual(countSlots(`
+			contract C {
+				struct S { uint8 a; uint256 b; }
+				bool a;
+				S s;
+				bool b;
+				uint8[40] c;
+				uint16[] d;
+				mapping(address => S) e;
+				string f;
+			}
+		`), 9);
+	});
+
+	test('Resolves user defined types in the same file', () => {
+		assert.strictEqual(countSlots(`
+			interface IToken {}
+			type Price is uint128;
+			contract C {
+				enum Status { Active, Paused }
+				Status status;
+				IToken token;
+				Price price;
+				function() external callback;
+			}
+		`), 3);
+	});
+
+	test('Does not count types defined in other files', () => {
+		assert.strictEqual(countSlots('import {S} from "./S.sol"; contract C { uint256 a; S s; }'), undefined);
+	});
+
+	test('Recognizes storage gaps', () => {
+		const { stateVars } = parseStateVariables('contract C { uint256[50] private __gap; uint[0x10] __gap; uint8[50] private __gap; uint256[50] private gap; }');
+		assert.deepStrictEqual(stateVars.map(getStorageGapSize), [50, 16, undefined, undefined]);
+	});
+});
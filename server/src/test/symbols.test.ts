@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import { DocumentSymbol, SymbolKind } from 'vscode-languageserver';
+import { getOutline, NON_NAMESPACED_STORAGE_LABEL } from '../analysis';
+
+const source = {
+	filePath: '/project/contracts/Token.sol',
+	text: `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+
+contract Token is Initializable {
+    uint256 public constant MAX_SUPPLY = 1000;
+    address owner;
+    mapping(address => uint256) balances;
+
+    /// @custom:storage-location erc7201:example.Token
+    struct TokenStorage {
+        uint256 totalSupply;
+        mapping(address => uint256) allowances;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("example.Token")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant TokenStorageLocation = 0x51eed31d981c267b21d92d46d1e31cfd1b19caf8c7aaadac9cda2ac16bfc2600;
+
+    function _getTokenStorage() private pure returns (TokenStorage storage $) {
+        assembly {
+            $.slot := TokenStorageLocation
+        }
+    }
+
+    function totalSupply() public view returns (uint256) {
+        return _getTokenStorage().totalSupply;
+    }
+}
+
+contract Empty {}
+`,
+};
+
+/**
+ * Prints a symbol tree as indented lines of name, detail and kind, to compare it as a whole.
+ */
+function printSymbols(symbols: DocumentSymbol[], indent = ''): string[] {
+	return symbols.flatMap(symbol => [
+		`${indent}${symbol.name}${symbol.detail !== undefined ? ` (${symbol.detail})` : ''}: ${symbol.kind}`,
+		...printSymbols(symbol.children ?? [], indent + '  '),
+	]);
+}
+
+function isWithin(inner: DocumentSymbol, outer: DocumentSymbol) {
+	const start = (symbol: DocumentSymbol) => [symbol.range.start.line, symbol.range.start.character];
+	const end = (symbol: DocumentSymbol) => [symbol.range.end.line, symbol.range.end.character];
+	const compare = (a: number[], b: number[]) => a[0] !== b[0] ? a[0] - b[0] : a[1] - b[1];
+	return compare(start(inner), start(outer)) >= 0 && compare(end(inner), end(outer)) <= 0;
+}
+
+suite('Should outline namespaces', () => {
+	test('Groups namespaced and non-namespaced storage of each contract', async () => {
+		const symbols = await getOutline(source);
+		assert.deepStrictEqual(printSymbols(symbols), [
+			`Token: ${SymbolKind.Class}`,
+			`  erc7201:example.Token (0x51eed31d981c267b21d92d46d1e31cfd1b19caf8c7aaadac9cda2ac16bfc2600): ${SymbolKind.Namespace}`,
+			`    totalSupply (uint256): ${SymbolKind.Field}`,
+			`    allowances (mapping(address => uint256)): ${SymbolKind.Field}`,
+			`    TokenStorageLocation (bytes32): ${SymbolKind.Constant}`,
+			`    _getTokenStorage (returns (TokenStorage storage $)): ${SymbolKind.Function}`,
+			`  ${NON_NAMESPACED_STORAGE_LABEL} (2 variables): ${SymbolKind.Package}`,
+			`    owner (address): ${SymbolKind.Field}`,
+			`    balances (mapping(address => uint256)): ${SymbolKind.Field}`,
+			`Empty: ${SymbolKind.Class}`,
+		]);
+	});
+
+	test('Contains the children in the range of their parent', async () => {
+		const check = (symbol: DocumentSymbol) => {
+			for (const child of symbol.children ?? []) {
+				assert.ok(isWithin(child, symbol), `${child.name} is not within ${symbol.name}`);
+				check(child);
+			}
+		};
+		(await getOutline(source)).forEach(check);
+	});
+});
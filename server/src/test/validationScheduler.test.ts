@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import { CancellationToken, CancellationTokenSource, Diagnostic } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { AnalysisCancelledError } from '../analysis';
+import { createValidationScheduler } from '../validationScheduler';
+
+const uri = 'file:///project/contracts/Counter.sol';
+
+/**
+ * Validates by returning a diagnostic with the document's text as the message, and records the validated versions.
+ */
+function createValidate(validatedVersions: number[], release?: Promise<void>) {
+	return async (textDocument: TextDocument, cancellationToken: CancellationToken): Promise<Diagnostic[]> => {
+		validatedVersions.push(textDocument.version);
+		await release;
+		if (cancellationToken.isCancellationRequested) {
+			throw new AnalysisCancelledError();
+		}
+		return [{ range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } }, message: textDocument.getText() }];
+	};
+}
+
+suite('Should schedule validations', () => {
+	test('Validates only the latest version of rapid edits', async () => {
+		const validatedVersions: number[] = [];
+		const scheduler = createValidationScheduler(createValidate(validatedVersions), 20);
+
+		const textDocument = TextDocument.create(uri, 'solidity', 1, 'a');
+		scheduler.schedule(textDocument);
+		TextDocument.update(textDocument, [{ text: 'ab' }], 2);
+		scheduler.schedule(textDocument);
+		TextDocument.update(textDocument, [{ text: 'abc' }], 3);
+		scheduler.schedule(textDocument);
+
+		const diagnostics = await scheduler.getDiagnostics(textDocument);
+		assert.deepStrictEqual(validatedVersions, [3]);
+		assert.strictEqual(diagnostics[0].message, 'abc');
+	});
+
+	test('Serves requests from the latest finished validation', async () => {
+		const validatedVersions: number[] = [];
+		const scheduler = createValidationScheduler(createValidate(validatedVersions), 0);
+
+		const textDocument = TextDocument.create(uri, 'solidity', 1, 'a');
+		const first = await scheduler.getDiagnostics(textDocument);
+		const second = await scheduler.getDiagnostics(textDocument);
+		assert.strictEqual(second, first);
+		assert.deepStrictEqual(validatedVersions, [1]);
+	});
+
+	test('Cancels the validation of a superseded version', async () => {
+		const validatedVersions: number[] = [];
+		let release!: () => void;
+		const scheduler = createValidationScheduler(createValidate(validatedVersions, new Promise(resolve => release = resolve)), 0);
+
+		const textDocument = TextDocument.create(uri, 'solidity', 1, 'a');
+		const stale = scheduler.getDiagnostics(textDocument);
+		// let the validation of the first version start
+		await new Promise(resolve => setTimeout(resolve, 5));
+
+		TextDocument.update(textDocument, [{ text: 'ab' }], 2);
+		scheduler.schedule(textDocument);
+		await assert.rejects(stale, AnalysisCancelledError);
+
+		release();
+		const latest = await scheduler.getDiagnostics(textDocument);
+		assert.strictEqual(latest[0].message, 'ab');
+		assert.deepStrictEqual(validatedVersions, [1, 2]);
+	});
+
+	test('Stops waiting when the request is cancelled', async () => {
+		const scheduler = createValidationScheduler(createValidate([]), 1000);
+		const textDocument = TextDocument.create(uri, 'solidity', 1, 'a');
+		scheduler.schedule(textDocument);
+
+		const request = new CancellationTokenSource();
+		const diagnostics = scheduler.getDiagnostics(textDocument, request.token);
+		request.cancel();
+		await assert.rejects(diagnostics, AnalysisCancelledError);
+		scheduler.clear();
+	});
+});
@@ -0,0 +1,260 @@
+import * as assert from 'assert';
+import { analyze, DUPLICATE_NAMESPACE_ID, INHERITED_STORAGE_VARIABLES, STORAGE_LAYOUT_INCOMPATIBLE, STORAGE_VARIABLE_RENAMED } from '../analysis';
+import { clearFoundryProjectCache } from '../foundry';
+import { clearProjectConfigCache } from '../project';
+import { clearRemappingsCache } from '../remappings';
+import { getIndexedFile, getLinearizedContracts, invalidateIndexedFile, resolveImport } from '../workspaceIndex';
+import { Language } from '@nomicfoundation/slang/language';
+import { URI } from 'vscode-uri';
+
+import os from 'os';
+import path from 'path';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+
+const FOUNDRY_TOML = `
+[profile.default]
+libs = ["dependencies"]
+remappings = ["@oz/=dependencies/openzeppelin/"]
+`;
+
+const BASE = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+contract Base {
+    /// @custom:storage-location erc7201:example.Shared
+    struct BaseStorage {
+        uint256 value;
+    }
+}
+`;
+
+const OTHER_BASE = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+contract OtherBase {
+    /// @custom:storage-location erc7201:example.Shared
+    struct OtherBaseStorage {
+        uint256 value;
+    }
+}
+`;
+
+const LEGACY = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+contract Legacy {
+    uint256 public count;
+    address public owner;
+    uint256 private constant MAX = 10;
+}
+`;
+
+const DIAMOND = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+contract A {}
+contract B is A {}
+contract C is A {}
+contract D is B, C {}
+`;
+
+const OLD_TOKEN = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Legacy} from "legacy/Legacy.sol";
+
+contract OldToken is Legacy {
+    uint256 supply;
+}
+`;
+
+function write(filePath: string, text: string) {
+	mkdirSync(path.dirname(filePath), { recursive: true });
+	writeFileSync(filePath, text);
+	invalidateIndexedFile(filePath);
+}
+
+suite('Should resolve imports across the workspace', () => {
+	let workspaceFolder: string;
+	let foundryProject: string;
+
+	suiteSetup(() => {
+		workspaceFolder = mkdtempSync(path.join(os.tmpdir(), 'workspace-index-'));
+		foundryProject = path.join(workspaceFolder, 'packages', 'foundry');
+
+		write(path.join(workspaceFolder, 'remappings.txt'), 'lib/=vendor/lib/\ncontracts/mocks:lib/=vendor/mocks/\n');
+		write(path.join(workspaceFolder, 'vendor', 'lib', 'Lib.sol'), '');
+		write(path.join(workspaceFolder, 'vendor', 'mocks', 'Lib.sol'), '');
+		write(path.join(workspaceFolder, 'node_modules', '@openzeppelin', 'contracts', 'Base.sol'), BASE);
+		write(path.join(foundryProject, 'foundry.toml'), FOUNDRY_TOML);
+		write(path.join(foundryProject, 'dependencies', 'openzeppelin', 'Base.sol'), BASE);
+		write(path.join(foundryProject, 'dependencies', 'solady', 'Lib.sol'), '');
+		write(path.join(foundryProject, 'dependencies', 'forge-std', 'src', 'Test.sol'), '');
+		write(path.join(foundryProject, 'dependencies', 'upgradeable', 'foundry.toml'), '[profile.default]\nsrc = "contracts"\n');
+		write(path.join(foundryProject, 'dependencies', 'upgradeable', 'contracts', 'Initializable.sol'), '');
+
+		clearProjectConfigCache();
+		clearFoundryProjectCache();
+		clearRemappingsCache();
+	});
+
+	suiteTeardown(() => {
+		clearProjectConfigCache();
+		clearFoundryProjectCache();
+		clearRemappingsCache();
+		rmSync(workspaceFolder, { recursive: true, force: true });
+	});
+
+	test('Resolves relative paths from the importing file', async () => {
+		const importingFile = path.join(workspaceFolder, 'contracts', 'token', 'Token.sol');
+		assert.strictEqual(await resolveImport('./Base.sol', importingFile, [workspaceFolder]), path.join(workspaceFolder, 'contracts', 'token', 'Base.sol'));
+		assert.strictEqual(await resolveImport('../utils/Math.sol', importingFile, [workspaceFolder]), path.join(workspaceFolder, 'contracts', 'utils', 'Math.sol'));
+	});
+
+	test('Applies the longest remapping whose context matches the importing file', async () => {
+		assert.strictEqual(await resolveImport('lib/Lib.sol', path.join(workspaceFolder, 'contracts', 'Token.sol'), [workspaceFolder]), path.join(workspaceFolder, 'vendor', 'lib', 'Lib.sol'));
+		assert.strictEqual(await resolveImport('lib/Lib.sol', path.join(workspaceFolder, 'contracts', 'mocks', 'Mock.sol'), [workspaceFolder]), path.join(workspaceFolder, 'vendor', 'mocks', 'Lib.sol'));
+	});
+
+	test('Applies the remappings and libraries of the nearest Foundry project', async () => {
+		const importingFile = path.join(foundryProject, 'src', 'Token.sol');
+		assert.strictEqual(await resolveImport('@oz/Base.sol', importingFile, [workspaceFolder]), path.join(foundryProject, 'dependencies', 'openzeppelin', 'Base.sol'));
+		assert.strictEqual(await resolveImport('solady/Lib.sol', importingFile, [workspaceFolder]), path.join(foundryProject, 'dependencies', 'solady', 'Lib.sol'));
+	});
+
+	test('Resolves libraries to their source directories', async () => {
+		const importingFile = path.join(foundryProject, 'src', 'Token.sol');
+		assert.strictEqual(await resolveImport('forge-std/Test.sol', importingFile, [workspaceFolder]), path.join(foundryProject, 'dependencies', 'forge-std', 'src', 'Test.sol'));
+		assert.strictEqual(await resolveImport('upgradeable/Initializable.sol', importingFile, [workspaceFolder]), path.join(foundryProject, 'dependencies', 'upgradeable', 'contracts', 'Initializable.sol'));
+	});
+
+	test('Falls back to node_modules of the workspace folder', async () => {
+		const importingFile = path.join(foundryProject, 'src', 'Token.sol');
+		assert.strictEqual(await resolveImport('@openzeppelin/contracts/Base.sol', importingFile, [workspaceFolder]), path.join(workspaceFolder, 'node_modules', '@openzeppelin', 'contracts', 'Base.sol'));
+	});
+
+	test('Does not resolve missing files', async () => {
+		assert.strictEqual(await resolveImport('missing/Missing.sol', path.join(workspaceFolder, 'contracts', 'Token.sol'), [workspaceFolder]), undefined);
+	});
+});
+
+suite('Should check the inheritance tree across files', () => {
+	let workspaceFolder: string;
+
+	suiteSetup(() => {
+		workspaceFolder = mkdtempSync(path.join(os.tmpdir(), 'inheritance-'));
+		write(path.join(workspaceFolder, 'contracts', 'Base.sol'), BASE);
+		write(path.join(workspaceFolder, 'contracts', 'OtherBase.sol'), OTHER_BASE);
+		write(path.join(workspaceFolder, 'node_modules', 'legacy', 'Legacy.sol'), LEGACY);
+		write(path.join(workspaceFolder, 'contracts', 'Diamond.sol'), DIAMOND);
+		write(path.join(workspaceFolder, 'contracts', 'old', 'OldToken.sol'), OLD_TOKEN);
+		clearProjectConfigCache();
+		clearRemappingsCache();
+	});
+
+	suiteTeardown(() => {
+		clearProjectConfigCache();
+		clearRemappingsCache();
+		rmSync(workspaceFolder, { recursive: true, force: true });
+	});
+
+	function source(fileName: string, text: string) {
+		return { filePath: path.join(workspaceFolder, 'contracts', fileName), text };
+	}
+
+	test('Reports a namespace id that is also used by a parent in another file', async () => {
+		const { diagnostics } = await analyze(source('Child.sol', `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Base} from "./Base.sol";
+
+contract Child is Base {
+    /// @custom:storage-location erc7201:example.Shared
+    struct ChildStorage {
+        uint256 value;
+    }
+}
+`), { workspaceFolders: [workspaceFolder] });
+
+		const duplicates = diagnostics.filter(diagnostic => diagnostic.code === DUPLICATE_NAMESPACE_ID);
+		assert.deepStrictEqual(duplicates.map(diagnostic => diagnostic.relatedInformation![0].message), ['Namespace id `example.Shared` is also used by inherited contract `Base`']);
+		assert.strictEqual(duplicates[0].relatedInformation![1].location.uri, URI.file(path.join(workspaceFolder, 'contracts', 'Base.sol')).toString());
+	});
+
+	test('Reports the same namespace id in parents from different files', async () => {
+		const { diagnostics } = await analyze(source('Child.sol', `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./Base.sol";
+import "./OtherBase.sol";
+
+contract Child is Base, OtherBase {}
+`), { workspaceFolders: [workspaceFolder] });
+
+		assert.deepStrictEqual(diagnostics.filter(diagnostic => diagnostic.code === DUPLICATE_NAMESPACE_ID).map(diagnostic => diagnostic.relatedInformation![0].message), [
+			'Namespace id `example.Shared` is used by multiple inherited contracts: `Base`, `OtherBase`',
+		]);
+	});
+
+	test('Reports inherited variables in regular storage of upgradeable contracts with namespaces', async () => {
+		const { diagnostics } = await analyze(source('Child.sol', `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Legacy} from "legacy/Legacy.sol";
+
+/// @custom:oz-upgrades
+contract Child is Legacy {
+    /// @custom:storage-location erc7201:example.Child
+    struct ChildStorage {
+        uint256 value;
+    }
+}
+`), { workspaceFolders: [workspaceFolder] });
+
+		const inherited = diagnostics.filter(diagnostic => diagnostic.code === INHERITED_STORAGE_VARIABLES);
+		assert.strictEqual(inherited.length, 1);
+		assert.deepStrictEqual(inherited[0].range, { start: { line: 6, character: 9 }, end: { line: 6, character: 14 } });
+		assert.deepStrictEqual(inherited[0].relatedInformation![1].message, 'State variables of `Legacy`: `count`, `owner`');
+	});
+
+	test('Does not report inherited variables of contracts that are not upgradeable', async () => {
+		const { diagnostics } = await analyze(source('Child.sol', `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Legacy} from "legacy/Legacy.sol";
+
+contract Child is Legacy {
+    /// @custom:storage-location erc7201:example.Child
+    struct ChildStorage {
+        uint256 value;
+    }
+}
+`), { workspaceFolders: [workspaceFolder] });
+
+		assert.deepStrictEqual(diagnostics.filter(diagnostic => diagnostic.code === INHERITED_STORAGE_VARIABLES), []);
+	});
+
+	test('Linearizes bases like Solidity', async () => {
+		const language = new Language('0.8.26');
+		const file = (await getIndexedFile(path.join(workspaceFolder, 'contracts', 'Diamond.sol'), language))!;
+		const linearization = await getLinearizedContracts(file, file.contracts.find(contract => contract.name === 'D')!, language, [workspaceFolder]);
+		assert.deepStrictEqual(linearization?.map(linearized => linearized.contract.name), ['D', 'C', 'B', 'A']);
+	});
+
+	test('Compares the storage layout with the inherited storage of a reference in another file', async () => {
+		const { diagnostics } = await analyze(source('Token.sol', `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Legacy} from "legacy/Legacy.sol";
+
+/// @custom:oz-upgrades-from contracts/old/OldToken.sol:OldToken
+contract Token is Legacy {
+    uint256 totalSupply;
+    uint256 cap;
+}
+`), { workspaceFolders: [workspaceFolder] });
+
+		const layoutChanges = diagnostics.filter(diagnostic => diagnostic.code === STORAGE_LAYOUT_INCOMPATIBLE || diagnostic.code === STORAGE_VARIABLE_RENAMED);
+		assert.deepStrictEqual(layoutChanges.map(diagnostic => [diagnostic.range.start.line, diagnostic.data.kind, diagnostic.data.name]), [[7, 'renamed', 'totalSupply']]);
+	});
+});
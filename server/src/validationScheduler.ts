@@ -0,0 +1,114 @@
+import { CancellationToken, CancellationTokenSource, Diagnostic } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { AnalysisCancelledError } from './context';
+
+/**
+ * How long to wait after an edit before validating a document, so that a burst of edits is validated once.
+ */
+export const VALIDATION_DELAY_MS = 300;
+
+/**
+ * Validates a document. Should reject with `AnalysisCancelledError` when the token is cancelled.
+ */
+export type Validate = (textDocument: TextDocument, cancellationToken: CancellationToken) => Promise<Diagnostic[]>;
+
+/**
+ * Schedules the validation of open documents. Each document has at most one validation, for its latest version.
+ */
+export type ValidationScheduler = {
+	/**
+	 * Schedules a validation of the document after the debounce delay, cancelling the validation of its previous version.
+	 */
+	schedule(textDocument: TextDocument): void;
+	/**
+	 * Gets the diagnostics of the given version of a document. Serves the latest result if that version was validated already,
+	 * waits for its scheduled validation, or starts one immediately if none is scheduled.
+	 *
+	 * Rejects with `AnalysisCancelledError` if the validation is superseded by a newer version or the token is cancelled.
+	 */
+	getDiagnostics(textDocument: TextDocument, cancellationToken?: CancellationToken): Promise<Diagnostic[]>;
+	/**
+	 * Cancels the validation of a document and forgets its result, e.g. when it is closed.
+	 */
+	remove(uri: string): void;
+	/**
+	 * Cancels all validations and forgets their results, e.g. when settings or project config change.
+	 */
+	clear(): void;
+}
+
+type Validation = {
+	version: number;
+	cancellation: CancellationTokenSource;
+	timer?: NodeJS.Timeout;
+	result: Promise<Diagnostic[]>;
+}
+
+export function createValidationScheduler(validate: Validate, delay = VALIDATION_DELAY_MS): ValidationScheduler {
+	const validations: Map<string, Validation> = new Map();
+
+	function start(textDocument: TextDocument, delay: number): Validation {
+		remove(textDocument.uri);
+
+		// the document manager updates documents in place, so a snapshot is validated to keep the text stable while the validation runs
+		const snapshot = TextDocument.create(textDocument.uri, textDocument.languageId, textDocument.version, textDocument.getText());
+		const cancellation = new CancellationTokenSource();
+
+		let timer: NodeJS.Timeout | undefined;
+		const result = new Promise<Diagnostic[]>((resolve, reject) => {
+			cancellation.token.onCancellationRequested(() => reject(new AnalysisCancelledError()));
+			timer = setTimeout(() => {
+				validation.timer = undefined;
+				validate(snapshot, cancellation.token).then(resolve, reject);
+			}, delay);
+		});
+		// nobody may be waiting for the result, e.g. when a validation is superseded before it is requested
+		result.catch(() => undefined);
+
+		const validation: Validation = { version: textDocument.version, cancellation, timer, result };
+		validations.set(textDocument.uri, validation);
+		return validation;
+	}
+
+	function remove(uri: string) {
+		const validation = validations.get(uri);
+		if (validation !== undefined) {
+			clearTimeout(validation.timer);
+			validation.cancellation.cancel();
+			validation.cancellation.dispose();
+			validations.delete(uri);
+		}
+	}
+
+	return {
+		schedule(textDocument) {
+			start(textDocument, delay);
+		},
+		getDiagnostics(textDocument, cancellationToken) {
+			let validation = validations.get(textDocument.uri);
+			if (validation === undefined || validation.version !== textDocument.version) {
+				validation = start(textDocument, 0);
+			}
+			return waitFor(validation.result, cancellationToken);
+		},
+		remove,
+		clear() {
+			for (const uri of [...validations.keys()]) {
+				remove(uri);
+			}
+		},
+	};
+}
+
+/**
+ * Waits for a result, unless the token is cancelled first.
+ */
+function waitFor<T>(result: Promise<T>, cancellationToken?: CancellationToken): Promise<T> {
+	if (cancellationToken === undefined) {
+		return result;
+	}
+	return new Promise<T>((resolve, reject) => {
+		const listener = cancellationToken.onCancellationRequested(() => reject(new AnalysisCancelledError()));
+		result.then(resolve, reject).finally(() => listener.dispose());
+	});
+}
@@ -0,0 +1,52 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+
+import path from 'path';
+import { promises as fs } from 'fs';
+
+/**
+ * Directories that are never searched for Solidity source files.
+ */
+export const IGNORED_DIRECTORIES = ['node_modules', 'out', 'artifacts', 'cache'];
+
+/**
+ * Recursively finds all Solidity files in the given workspace folders, ignoring dependency and build output directories.
+ *
+ * @param ignoredDirectories directories to skip, either by name or by absolute path
+ */
+export async function findSolidityFiles(workspaceFolders: string[], ignoredDirectories = IGNORED_DIRECTORIES): Promise<string[]> {
+	const files: string[] = [];
+	for (const workspaceFolder of workspaceFolders) {
+		await findSolidityFilesInDirectory(workspaceFolder, ignoredDirectories, files);
+	}
+	return files;
+}
+
+async function findSolidityFilesInDirectory(directory: string, ignoredDirectories: string[], files: string[]) {
+	let entries;
+	try {
+		entries = await fs.readdir(directory, { withFileTypes: true });
+	} catch (e: any) {
+		console.error(`Could not read directory ${directory}: ${e.message}`);
+		return;
+	}
+
+	for (const entry of entries) {
+		const entryPath = path.join(directory, entry.name);
+		if (entry.isDirectory()) {
+			if (!entry.name.startsWith('.') && !ignoredDirectories.includes(entry.name) && !ignoredDirectories.includes(entryPath)) {
+				await findSolidityFilesInDirectory(entryPath, ignoredDirectories, files);
+			}
+		} else if (entry.isFile() && entry.name.endsWith('.sol')) {
+			files.push(entryPath);
+		}
+	}
+}
+
+/**
+ * Reads a file from disk as a text document.
+ */
+export async function readTextDocument(filePath: string): Promise<TextDocument> {
+	const text = await fs.readFile(filePath, 'utf8');
+	return TextDocument.create(URI.file(filePath).toString(), 'solidity', 0, text);
+}
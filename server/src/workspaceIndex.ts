@@ -0,0 +1,400 @@
+import { Range, TextDocument } from 'vscode-languageserver-textdocument';
+import { NonterminalKind, TerminalKind } from "@nomicfoundation/slang/kinds";
+import { Language } from '@nomicfoundation/slang/language';
+import assert = require('node:assert');
+import { NonterminalNode, TerminalNode } from '@nomicfoundation/slang/cst';
+import { ContractDefinition, StructDefinition } from '@nomicfoundation/slang/ast';
+import { parse_output } from '@nomicfoundation/slang';
+import { URI } from 'vscode-uri';
+import { extractStorageLayout, NamespaceLayout, StorageItem } from './layout';
+import { getNameRange, slangToVSCodeRange } from './helpers/slang';
+import { applyRemappings, getRemappings } from './remappings';
+import { getFoundryProject } from './foundry';
+import { findWorkspaceFolder, getProjectFolder } from './project';
+import { findSolidityFiles, readTextDocument } from './workspace';
+
+import path from 'path';
+import { promises as fs } from 'fs';
+
+export type IndexedContract = {
+	name: string;
+	/**
+	 * The range of the contract name.
+	 */
+	range: Range;
+	bases: string[];
+	/**
+	 * The namespaces declared by the contract itself, with the ranges of their annotations.
+	 */
+	namespaces: NamespaceLayout[];
+	/**
+	 * The state variables in regular storage declared by the contract itself, excluding constants and immutables.
+	 */
+	variables: StorageItem[];
+}
+
+export type IndexedFile = {
+	filePath: string;
+	uri: string;
+	imports: string[];
+	contracts: IndexedContract[];
+	/**
+	 * The names of the structs defined in the file, either at file level or in contracts.
+	 */
+	structs: string[];
+}
+
+export type InheritedNamespace = NamespaceLayout & {
+	contractName: string;
+	uri: string;
+}
+
+export type AncestorContract = {
+	file: IndexedFile;
+	contract: IndexedContract;
+}
+
+/**
+ * Index of Solidity files in the workspace, keyed by file path.
+ * Files are added lazily when they are validated or imported, and removed when they change on disk.
+ */
+const index: Map<string, IndexedFile> = new Map();
+
+/**
+ * Indexes the given parse output of a file, replacing any existing entry for that file.
+ */
+export function indexParsedFile(textDocument: TextDocument, parseOutput: parse_output.ParseOutput): IndexedFile {
+	const filePath = URI.parse(textDocument.uri).fsPath;
+	const indexedFile: IndexedFile = {
+		filePath,
+		uri: textDocument.uri,
+		imports: [],
+		contracts: [],
+		structs: [],
+	};
+
+	const importCursor = parseOutput.createTreeCursor();
+	while (importCursor.goToNextNonterminalWithKind(NonterminalKind.ImportDirective)) {
+		const pathCursor = importCursor.spawn();
+		if (pathCursor.goToNextTerminalWithKinds([TerminalKind.DoubleQuotedStringLiteral, TerminalKind.SingleQuotedStringLiteral])) {
+			const pathNode = pathCursor.node();
+			assert(pathNode instanceof TerminalNode);
+			indexedFile.imports.push(pathNode.text.slice(1, -1));
+		}
+	}
+
+	const contractCursor = parseOutput.createTreeCursor();
+	while (contractCursor.goToNextNonterminalWithKind(NonterminalKind.ContractDefinition)) {
+		const contractDefNode = contractCursor.node();
+		assert(contractDefNode instanceof NonterminalNode);
+		const contractDef = new ContractDefinition(contractDefNode);
+
+		const layout = extractStorageLayout(contractCursor, textDocument);
+		indexedFile.contracts.push({
+			name: contractDef.name.text,
+			range: slangToVSCodeRange(textDocument, getNameRange(contractCursor)!),
+			bases: contractDef.inheritance?.types.items.map(type => type.typeName.items[type.typeName.items.length - 1].text) ?? [],
+			namespaces: layout.namespaces,
+			variables: layout.variables,
+		});
+	}
+
+	const structCursor = parseOutput.createTreeCursor();
+	while (structCursor.goToNextNonterminalWithKind(NonterminalKind.StructDefinition)) {
+		const structDefNode = structCursor.node();
+		assert(structDefNode instanceof NonterminalNode);
+		indexedFile.structs.push(new StructDefinition(structDefNode).name.text);
+	}
+
+	index.set(filePath, indexedFile);
+	return indexedFile;
+}
+
+/**
+ * Gets a file from the index, reading and parsing it from disk if it has not been indexed yet.
+ */
+export async function getIndexedFile(filePath: string, language: Language): Promise<IndexedFile | undefined> {
+	const indexedFile = index.get(filePath);
+	if (indexedFile !== undefined) {
+		return indexedFile;
+	}
+
+	try {
+		const textDocument = await readTextDocument(filePath);
+		return indexParsedFile(textDocument, language.parse(NonterminalKind.SourceUnit, textDocument.getText()));
+	} catch (e: any) {
+		console.error(`Could not index ${filePath}: ${e.message}`);
+		return undefined;
+	}
+}
+
+/**
+ * Removes a file from the index, so that it is parsed again the next time it is needed.
+ */
+export function invalidateIndexedFile(filePath: string) {
+	index.delete(filePath);
+}
+
+/**
+ * Resolves an import path to a file path, in the following order:
+ * 1. Relative to the importing file, if the path starts with `.`
+ * 2. Using remappings of the nearest project folder above the importing file
+ * 3. Relative to the project folder, in its Foundry library directories or the source directories of the libraries in them, or in its `node_modules`
+ *
+ * If the project folder is nested in a workspace folder, steps 2 and 3 are then repeated for the workspace folder.
+ */
+export async function resolveImport(importPath: string, importingFile: string, workspaceFolders: string[]): Promise<string | undefined> {
+	if (importPath.startsWith('.')) {
+		return path.resolve(path.dirname(importingFile), importPath);
+	}
+
+	const projectFolder = await getProjectFolder(importingFile, workspaceFolders);
+	const workspaceFolder = findWorkspaceFolder(importingFile, workspaceFolders);
+	const containingFolders = [...new Set([projectFolder, workspaceFolder])].filter((folder): folder is string => folder !== undefined);
+	const candidateFolders = containingFolders.length > 0 ? containingFolders : workspaceFolders;
+	for (const folder of candidateFolders) {
+		const foundryProject = await getFoundryProject(folder);
+		const remappings = foundryProject?.remappings ?? await getRemappings(folder);
+		const remapped = applyRemappings(importPath, path.relative(folder, importingFile), remappings);
+		const candidates = [
+			...(remapped !== undefined ? [path.resolve(folder, remapped)] : []),
+			path.resolve(folder, importPath),
+			...await getLibraryCandidates(importPath, folder, foundryProject?.libs ?? []),
+			path.resolve(folder, 'node_modules', importPath),
+		];
+		for (const candidate of candidates) {
+			if (await exists(candidate)) {
+				return candidate;
+			}
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Gets the paths an import can resolve to in the library directories of a Foundry project.
+ * Like the remappings that Foundry detects for libraries, `name/path` also resolves to `path` in the source directory of the library `name`.
+ */
+async function getLibraryCandidates(importPath: string, folder: string, libs: string[]): Promise<string[]> {
+	const separatorIndex = importPath.indexOf('/');
+	const candidates: string[] = [];
+	for (const lib of libs) {
+		candidates.push(path.resolve(folder, lib, importPath));
+		if (separatorIndex !== -1) {
+			const libraryRoot = path.resolve(folder, lib, importPath.substring(0, separatorIndex));
+			const src = (await getFoundryProject(libraryRoot))?.src ?? 'src';
+			candidates.push(path.resolve(libraryRoot, src, importPath.substring(separatorIndex + 1)));
+		}
+	}
+	return candidates;
+}
+
+/**
+ * Finds a contract by name as visible from the given file, by searching the file itself and then its imports transitively.
+ */
+async function resolveContract(contractName: string, fromFile: IndexedFile, language: Language, workspaceFolders: string[]): Promise<{ file: IndexedFile, contract: IndexedContract } | undefined> {
+	const visited = new Set<string>();
+	const queue: IndexedFile[] = [fromFile];
+
+	while (queue.length > 0) {
+		const file = queue.shift()!;
+		if (visited.has(file.filePath)) {
+			continue;
+		}
+		visited.add(file.filePath);
+
+		const contract = file.contracts.find(contract => contract.name === contractName);
+		if (contract !== undefined) {
+			return { file, contract };
+		}
+
+		for (const importPath of file.imports) {
+			const resolved = await resolveImport(importPath, file.filePath, workspaceFolders);
+			const importedFile = resolved !== undefined ? await getIndexedFile(resolved, language) : undefined;
+			if (importedFile !== undefined) {
+				queue.push(importedFile);
+			}
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Gets all ancestors of the given contract, following its inheritance chain across files. Each ancestor is included once.
+ */
+export async function getAncestorContracts(file: IndexedFile, contract: IndexedContract, language: Language, workspaceFolders: string[]): Promise<AncestorContract[]> {
+	const result: AncestorContract[] = [];
+	const visited = new Set<string>();
+
+	async function visit(currentFile: IndexedFile, currentContract: IndexedContract) {
+		for (const base of currentContract.bases) {
+			const resolved = await resolveContract(base, currentFile, language, workspaceFolders);
+			if (resolved === undefined) {
+				console.log(`Could not resolve base contract ${base} of ${currentContract.name}`);
+				continue;
+			}
+
+			const key = getContractKey(resolved);
+			if (visited.has(key)) {
+				continue;
+			}
+			visited.add(key);
+
+			result.push(resolved);
+			await visit(resolved.file, resolved.contract);
+		}
+	}
+
+	await visit(file, contract);
+	return result;
+}
+
+/**
+ * Gets the C3 linearization of a contract, which lists the contract itself first and its most base contract last.
+ * Solidity lays out the storage of inherited contracts in the reverse of this order. Bases that cannot be resolved are left out.
+ *
+ * @returns the linearization, or undefined if the inheritance graph cannot be linearized
+ */
+export async function getLinearizedContracts(file: IndexedFile, contract: IndexedContract, language: Language, workspaceFolders: string[]): Promise<AncestorContract[] | undefined> {
+	const linearizations = new Map<string, AncestorContract[] | undefined>();
+
+	async function linearize(current: AncestorContract, derived: string[]): Promise<AncestorContract[] | undefined> {
+		const key = getContractKey(current);
+		if (linearizations.has(key)) {
+			return linearizations.get(key);
+		}
+		if (derived.includes(key)) {
+			console.log(`Cyclic inheritance of ${current.contract.name}`);
+			return undefined;
+		}
+
+		const bases: AncestorContract[] = [];
+		for (const base of current.contract.bases) {
+			const resolved = await resolveContract(base, current.file, language, workspaceFolders);
+			if (resolved === undefined) {
+				console.log(`Could not resolve base contract ${base} of ${current.contract.name}`);
+				continue;
+			}
+			bases.push(resolved);
+		}
+
+		// bases are listed from the most base to the most derived, so the linearization starts with the last one
+		const sequences: AncestorContract[][] = [];
+		for (const base of [...bases].reverse()) {
+			const baseLinearization = await linearize(base, [...derived, key]);
+			if (baseLinearization === undefined) {
+				return undefined;
+			}
+			sequences.push(baseLinearization);
+		}
+		sequences.push([...bases].reverse());
+
+		const merged = mergeLinearizations(sequences);
+		const result = merged !== undefined ? [current, ...merged] : undefined;
+		linearizations.set(key, result);
+		return result;
+	}
+
+	return linearize({ file, contract }, []);
+}
+
+/**
+ * Merges linearizations by repeatedly taking the first head that does not appear in the tail of any of them.
+ *
+ * @returns the merged linearization, or undefined if no head can be taken
+ */
+function mergeLinearizations(sequences: AncestorContract[][]): AncestorContract[] | undefined {
+	const contracts = new Map(sequences.flat().map(contract => [getContractKey(contract), contract]));
+	let remaining = sequences.map(sequence => sequence.map(getContractKey)).filter(sequence => sequence.length > 0);
+
+	const result: AncestorContract[] = [];
+	while (remaining.length > 0) {
+		const head = remaining.map(sequence => sequence[0]).find(candidate => remaining.every(sequence => !sequence.slice(1).includes(candidate)));
+		if (head === undefined) {
+			return undefined;
+		}
+		result.push(contracts.get(head)!);
+		remaining = remaining.map(sequence => sequence[0] === head ? sequence.slice(1) : sequence).filter(sequence => sequence.length > 0);
+	}
+	return result;
+}
+
+/**
+ * Finds the contract referenced by `@custom:oz-upgrades-from`, using the index.
+ *
+ * The reference can either be a contract name, or a fully qualified name in the form `path/to/File.sol:ContractName`
+ * where the path is relative to a workspace folder or to the given file. A contract name is looked up in the given file and its imports,
+ * and then in the other files of the workspace.
+ */
+export async function findReferenceContract(reference: string, fromFile: IndexedFile, language: Language, workspaceFolders: string[]): Promise<AncestorContract | undefined> {
+	const separatorIndex = reference.lastIndexOf(':');
+	const contractName = separatorIndex === -1 ? reference : reference.substring(separatorIndex + 1);
+
+	let candidates: string[];
+	if (separatorIndex !== -1) {
+		const sourceName = reference.substring(0, separatorIndex);
+		candidates = [...workspaceFolders, path.dirname(fromFile.filePath)].map(folder => path.resolve(folder, sourceName));
+	} else {
+		const resolved = await resolveContract(contractName, fromFile, language, workspaceFolders);
+		if (resolved !== undefined) {
+			return resolved;
+		}
+		candidates = await findSolidityFiles(workspaceFolders);
+	}
+
+	for (const candidate of candidates) {
+		const file = candidate === fromFile.filePath ? fromFile : await exists(candidate) ? await getIndexedFile(candidate, language) : undefined;
+		const contract = file?.contracts.find(contract => contract.name === contractName);
+		if (contract !== undefined) {
+			return { file: file!, contract };
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Gets the names of the structs defined in the files that the given file imports, following their imports transitively.
+ */
+export async function getImportedStructs(fromFile: IndexedFile, language: Language, workspaceFolders: string[]): Promise<Set<string>> {
+	const result = new Set<string>();
+	const visited = new Set<string>([fromFile.filePath]);
+	const queue: IndexedFile[] = [fromFile];
+
+	while (queue.length > 0) {
+		const file = queue.shift()!;
+		for (const importPath of file.imports) {
+			const resolved = await resolveImport(importPath, file.filePath, workspaceFolders);
+			if (resolved === undefined || visited.has(resolved)) {
+				continue;
+			}
+			visited.add(resolved);
+
+			const importedFile = await getIndexedFile(resolved, language);
+			if (importedFile !== undefined) {
+				importedFile.structs.forEach(struct => result.add(struct));
+				queue.push(importedFile);
+			}
+		}
+	}
+	return result;
+}
+
+/**
+ * Gets the namespaces defined by the given ancestors.
+ */
+export function getInheritedNamespaces(ancestors: AncestorContract[]): InheritedNamespace[] {
+	return ancestors.flatMap(({ file, contract }) => contract.namespaces.map(namespace => ({ ...namespace, contractName: contract.name, uri: file.uri })));
+}
+
+function getContractKey({ file, contract }: AncestorContract) {
+	return `${file.filePath}:${contract.name}`;
+}
+
+async function exists(file: string): Promise<boolean> {
+	try {
+		await fs.access(file);
+		return true;
+	} catch (e: any) {
+		return false;
+	}
+}
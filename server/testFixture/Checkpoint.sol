@@ -0,0 +1,7 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+struct Checkpoint {
+    uint48 key;
+    uint208 value;
+}
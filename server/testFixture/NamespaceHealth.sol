@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import {Checkpoint} from "./Checkpoint.sol";
+
+struct Position {
+    uint256 amount;
+    uint64 since;
+}
+
+contract Staking is Initializable {
+    enum Status { Active, Paused }
+
+    /// @custom:storage-location erc7201:example.Staking
+    struct StakingStorage { //~ NamespaceFieldsAppendOnly
+        Status status;
+        Position total;
+        //~^ NamespaceFieldNestedStruct
+        Position[3] tiers;
+        //~^ NamespaceFieldStructArray
+        Position[2][2] grid;
+        //~^ NamespaceFieldStructArray
+        Position[] history;
+        mapping(address => Position) positions;
+        Checkpoint latest;
+        //~^ NamespaceFieldNestedStruct
+        uint256 MAX_STAKE;
+        //~^ NamespaceFieldConstantLookalike
+        address rewardToken;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("example.Staking")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant StakingStorageLocation = 0x776197847b2abe27f0890e5f06cb5361a7f94c21dd495e2af06ddae553f80d00;
+}
@@ -0,0 +1,96 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+
+contract Ownable is Initializable { //~ ContractCanBeNamespaced
+    address owner;
+    //~^ VariableCanBeNamespaced
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(address initialOwner) public initializer {
+        __Ownable_init(initialOwner);
+    }
+
+    function __Ownable_init(address initialOwner) internal onlyInitializing {
+        __Ownable_init_unchained(initialOwner);
+    }
+
+    function __Ownable_init_unchained(address initialOwner) internal onlyInitializing {
+        owner = initialOwner;
+    }
+}
+
+contract Disabled is Initializable {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+}
+
+contract Capped is Initializable {
+    uint256 immutable cap;
+
+    constructor(uint256 cap_) {
+        cap = cap_;
+    }
+}
+
+contract CappedOwnable is Initializable { //~ ContractCanBeNamespaced
+    uint256 immutable cap;
+    address owner;
+    //~^ VariableCanBeNamespaced
+
+    constructor(uint256 cap_, address initialOwner) { //~ ConstructorInUpgradeableContract
+        cap = cap_;
+        owner = initialOwner;
+    }
+}
+
+contract Initialized is Initializable { //~ ContractCanBeNamespaced
+    address owner;
+    //~^ VariableCanBeNamespaced
+    uint256 value;
+    //~^ VariableCanBeNamespaced
+
+    constructor(address initialOwner) { //~ ConstructorInUpgradeableContract
+        owner = initialOwner;
+    }
+
+    function initialize(uint256 initialValue) public initializer {
+        value = initialValue;
+    }
+}
+
+contract Allowed is Initializable { //~ ContractCanBeNamespaced
+    address owner;
+    //~^ VariableCanBeNamespaced
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address initialOwner) {
+        owner = initialOwner;
+    }
+}
+
+/// @custom:oz-upgrades-unsafe-allow constructor
+contract AllowedContract is Initializable { //~ ContractCanBeNamespaced
+    address owner;
+    //~^ VariableCanBeNamespaced
+
+    constructor(address initialOwner) {
+        owner = initialOwner;
+    }
+}
+
+contract Token is Initializable, ERC20Upgradeable, UUPSUpgradeable { //~ ContractCanBeNamespaced
+    address owner;
+    //~^ VariableCanBeNamespaced
+
+    constructor(address initialOwner) { //~ ConstructorInUpgradeableContract
+        owner = initialOwner;
+    }
+}
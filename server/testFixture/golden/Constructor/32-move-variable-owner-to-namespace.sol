@@ -0,0 +1,98 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+
+contract Ownable is Initializable { //~ ContractCanBeNamespaced
+    address owner;
+    //~^ VariableCanBeNamespaced
+
+    constructor(address initialOwner) { //~ ConstructorInUpgradeableContract
+        owner = initialOwner;
+    }
+}
+
+contract Disabled is Initializable {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+}
+
+contract Capped is Initializable {
+    uint256 immutable cap;
+
+    constructor(uint256 cap_) {
+        cap = cap_;
+    }
+}
+
+contract CappedOwnable is Initializable { //~ ContractCanBeNamespaced
+    uint256 immutable cap;
+    /// @custom:storage-location erc7201:example.CappedOwnable
+    struct CappedOwnableStorage {
+        address owner;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("example.CappedOwnable")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant CappedOwnableStorageLocation = 0x9ad88fcfc710242baaee713d20d1479c485bfe99f98f3384ae6624fae170d700;
+
+    /// @dev Returns the storage struct of the `erc7201:example.CappedOwnable` namespace.
+    function _getCappedOwnableStorage() private pure returns (CappedOwnableStorage storage $) {
+        assembly {
+            $.slot := CappedOwnableStorageLocation
+        }
+    }
+
+    //~^ VariableCanBeNamespaced
+
+    constructor(uint256 cap_, address initialOwner) { //~ ConstructorInUpgradeableContract
+        CappedOwnableStorage storage $ = _getCappedOwnableStorage();
+        cap = cap_;
+        $.owner = initialOwner;
+    }
+}
+
+contract Initialized is Initializable { //~ ContractCanBeNamespaced
+    address owner;
+    //~^ VariableCanBeNamespaced
+    uint256 value;
+    //~^ VariableCanBeNamespaced
+
+    constructor(address initialOwner) { //~ ConstructorInUpgradeableContract
+        owner = initialOwner;
+    }
+
+    function initialize(uint256 initialValue) public initializer {
+        value = initialValue;
+    }
+}
+
+contract Allowed is Initializable { //~ ContractCanBeNamespaced
+    address owner;
+    //~^ VariableCanBeNamespaced
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address initialOwner) {
+        owner = initialOwner;
+    }
+}
+
+/// @custom:oz-upgrades-unsafe-allow constructor
+contract AllowedContract is Initializable { //~ ContractCanBeNamespaced
+    address owner;
+    //~^ VariableCanBeNamespaced
+
+    constructor(address initialOwner) {
+        owner = initialOwner;
+    }
+}
+
+contract Token is Initializable, ERC20Upgradeable, UUPSUpgradeable { //~ ContractCanBeNamespaced
+    address owner;
+    //~^ VariableCanBeNamespaced
+
+    constructor(address initialOwner) { //~ ConstructorInUpgradeableContract
+        owner = initialOwner;
+    }
+}
@@ -0,0 +1,48 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+
+contract Formatted is Initializable { //~ ContractCanBeNamespaced
+	uint256 count = 1;
+	//~^ VariableHasInitialValue
+
+	function initialize() public initializer {
+	}
+
+	function increment() public { // adds one
+		count++;
+	}
+
+	function getCount() public view returns (uint256) { return count; }
+}
+
+contract Getters is Initializable { //~ ContractCanBeNamespaced
+	/// @custom:storage-location erc7201:example.Getters
+	struct GettersStorage { //~ NamespaceFieldsAppendOnly
+		uint256 total;
+		//~^ VariableCanBeNamespaced
+		string name;
+	}
+
+	// keccak256(abi.encode(uint256(keccak256("example.Getters")) - 1)) & ~bytes32(uint256(0xff))
+	bytes32 private constant GettersStorageLocation = 0xc98e7444a4dca034e0b6b22c217660ee6dcb3eca53ae0836187aaca5ec241f00;
+
+	function _getGettersStorage() private pure returns (GettersStorage storage $) {
+		assembly {
+			$.slot := GettersStorageLocation
+		}
+	}
+
+	uint256 count;
+	//~^ VariableCanBeNamespaced
+
+	function name() public view returns (string memory) {
+		GettersStorage storage $ = _getGettersStorage();
+		return $.name;
+	}
+
+	//~^ VariableCanBeNamespaced
+	mapping(address => mapping(uint256 => bool)) public approvals;
+	//~^ VariableCanBeNamespaced
+}
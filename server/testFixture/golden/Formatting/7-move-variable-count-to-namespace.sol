@@ -0,0 +1,58 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+
+contract Formatted is Initializable { //~ ContractCanBeNamespaced
+	/// @custom:storage-location erc7201:example.Formatted
+	struct FormattedStorage {
+		uint256 count;
+	}
+
+	// keccak256(abi.encode(uint256(keccak256("example.Formatted")) - 1)) & ~bytes32(uint256(0xff))
+	bytes32 private constant FormattedStorageLocation = 0xd007255213f017c6b85bdc3d3af267f4bd55ae11653f6961ab832190305c7700;
+
+	/// @dev Returns the storage struct of the `erc7201:example.Formatted` namespace.
+	function _getFormattedStorage() private pure returns (FormattedStorage storage $) {
+		assembly {
+			$.slot := FormattedStorageLocation
+		}
+	}
+
+	//~^ VariableHasInitialValue
+
+	function initialize() public initializer {
+		FormattedStorage storage $ = _getFormattedStorage();
+		$.count = 1;
+	}
+
+	function increment() public { // adds one
+		FormattedStorage storage $ = _getFormattedStorage();
+		$.count++;
+	}
+
+	function getCount() public view returns (uint256) { FormattedStorage storage $ = _getFormattedStorage(); return $.count; }
+}
+
+contract Getters is Initializable { //~ ContractCanBeNamespaced
+	/// @custom:storage-location erc7201:example.Getters
+	struct GettersStorage { //~ NamespaceFieldsAppendOnly
+		uint256 total;
+	}
+
+	// keccak256(abi.encode(uint256(keccak256("example.Getters")) - 1)) & ~bytes32(uint256(0xff))
+	bytes32 private constant GettersStorageLocation = 0xc98e7444a4dca034e0b6b22c217660ee6dcb3eca53ae0836187aaca5ec241f00;
+
+	function _getGettersStorage() private pure returns (GettersStorage storage $) {
+		assembly {
+			$.slot := GettersStorageLocation
+		}
+	}
+
+	uint256 count;
+	//~^ VariableCanBeNamespaced
+	string public name;
+	//~^ VariableCanBeNamespaced
+	mapping(address => mapping(uint256 => bool)) public approvals;
+	//~^ VariableCanBeNamespaced
+}
@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+contract V1 { //~ ContractCanBeNamespaced
+    uint256 a;
+    address b;
+
+    /// @custom:storage-location erc7201:example.V
+    struct VStorage {
+        uint256 value;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("example.V")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant VStorageLocation = 0xf5633b75e74166b17881b31c6337749aff35bd75e4fb0123256a9f1da44c8700;
+}
+
+/// @custom:oz-upgrades-from V1
+contract V2 is V1 { //~ ContractCanBeNamespaced
+    /// @custom:storage-location erc7201:example.V2
+    struct V2Storage {
+        uint256 extra;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("example.V2")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant V2StorageLocation = 0x7316bb17691ddd8a10e52f4f01963bf6e9a1bc74c04a494eb79d5866e9b4f100;
+
+    /// @dev Returns the storage struct of the `erc7201:example.V2` namespace.
+    function _getV2Storage() private pure returns (V2Storage storage $) {
+        assembly {
+            $.slot := V2StorageLocation
+        }
+    }
+
+    //~^ VariableCanBeNamespaced
+}
+
+/// @custom:oz-upgrades-from V2
+contract V3 is V1 { //~ ContractCanBeNamespaced
+    uint256 inserted;
+    //~^ StorageLayoutIncompatible, VariableCanBeNamespaced
+    uint256 extra;
+    //~^ VariableCanBeNamespaced
+}
@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+contract V1 { //~ ContractCanBeNamespaced
+    uint256 a;
+    address b;
+
+    /// @custom:storage-location erc7201:example.V
+    struct VStorage {
+        uint256 value;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("example.V")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant VStorageLocation = 0xf5633b75e74166b17881b31c6337749aff35bd75e4fb0123256a9f1da44c8700;
+}
+
+/// @custom:oz-upgrades-from V1
+contract V2 is V1 { //~ ContractCanBeNamespaced
+    uint256 extra;
+    //~^ VariableCanBeNamespaced
+}
+
+/// @custom:oz-upgrades-from V2
+contract V3 is V1 { //~ ContractCanBeNamespaced
+    /// @custom:storage-location erc7201:example.V3
+    struct V3Storage {
+        uint256 inserted;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("example.V3")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant V3StorageLocation = 0x59a880dac11a7c03baae6a5c8d12e1dd8093e6c6ebb2c1ee0d652cc76f117600;
+
+    /// @dev Returns the storage struct of the `erc7201:example.V3` namespace.
+    function _getV3Storage() private pure returns (V3Storage storage $) {
+        assembly {
+            $.slot := V3StorageLocation
+        }
+    }
+
+    //~^ StorageLayoutIncompatible, VariableCanBeNamespaced
+    uint256 extra;
+    //~^ VariableCanBeNamespaced
+}
@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+contract V1 { //~ ContractCanBeNamespaced
+    /// @custom:storage-location erc7201:example.V1
+    struct V1Storage {
+        uint256 a;
+        address b;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("example.V1")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant V1StorageLocation = 0xb649a03ae8c8847cd09026b0fba0a9c84113744d0366c7a77fd157139456d900;
+
+    /// @dev Returns the storage struct of the `erc7201:example.V1` namespace.
+    function _getV1Storage() private pure returns (V1Storage storage $) {
+        assembly {
+            $.slot := V1StorageLocation
+        }
+    }
+
+    /// @custom:storage-location erc7201:example.V
+    struct VStorage {
+        uint256 value;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("example.V")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant VStorageLocation = 0xf5633b75e74166b17881b31c6337749aff35bd75e4fb0123256a9f1da44c8700;
+}
+
+/// @custom:oz-upgrades-from V1
+contract V2 is V1 { //~ ContractCanBeNamespaced
+    uint256 extra;
+    //~^ VariableCanBeNamespaced
+}
+
+/// @custom:oz-upgrades-from V2
+contract V3 is V1 { //~ ContractCanBeNamespaced
+    uint256 inserted;
+    //~^ StorageLayoutIncompatible, VariableCanBeNamespaced
+    uint256 extra;
+    //~^ VariableCanBeNamespaced
+}
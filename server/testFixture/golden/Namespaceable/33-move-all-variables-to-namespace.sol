@@ -0,0 +1,48 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+
+contract Counter is Initializable { //~ ContractCanBeNamespaced
+    address owner;
+    uint256 count = 1;
+    mapping(address => uint256) public balances;
+    //~^^^ VariableCanBeNamespaced //~^^ VariableHasInitialValue //~^ VariableCanBeNamespaced
+    uint256 constant MAX = 10;
+
+    function initialize() public initializer {
+        owner = msg.sender;
+    }
+
+    modifier onlyOwner() {
+        require(msg.sender == owner);
+        _;
+    }
+
+    function increment() public onlyOwner {
+        require(count < MAX);
+        count++;
+        balances[msg.sender] += 1;
+    }
+
+    function getCount() public view returns (uint256) {
+        return count;
+    }
+}
+
+contract NotUpgradeable { //~ ContractCanBeNamespaced
+    /// @custom:storage-location erc7201:example.NotUpgradeable
+    struct NotUpgradeableStorage {
+        uint256 count;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("example.NotUpgradeable")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant NotUpgradeableStorageLocation = 0x35b8703fb744f08d58b4b1d1d9abe25029d5f6a11077e1e1a348e59463f10200;
+
+    /// @dev Returns the storage struct of the `erc7201:example.NotUpgradeable` namespace.
+    function _getNotUpgradeableStorage() private pure returns (NotUpgradeableStorage storage $) {
+        assembly {
+            $.slot := NotUpgradeableStorageLocation
+        }
+    }
+}
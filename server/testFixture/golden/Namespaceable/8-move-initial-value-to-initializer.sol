@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+
+contract Counter is Initializable { //~ ContractCanBeNamespaced
+    address owner;
+    uint256 count;
+    mapping(address => uint256) public balances;
+    //~^^^ VariableCanBeNamespaced //~^^ VariableHasInitialValue //~^ VariableCanBeNamespaced
+    uint256 constant MAX = 10;
+
+    function initialize() public initializer {
+        count = 1;
+        owner = msg.sender;
+    }
+
+    modifier onlyOwner() {
+        require(msg.sender == owner);
+        _;
+    }
+
+    function increment() public onlyOwner {
+        require(count < MAX);
+        count++;
+        balances[msg.sender] += 1;
+    }
+
+    function getCount() public view returns (uint256) {
+        return count;
+    }
+}
+
+contract NotUpgradeable { //~ ContractCanBeNamespaced
+    uint256 count;
+}
@@ -0,0 +1,53 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+
+contract Counter is Initializable { //~ ContractCanBeNamespaced
+    address owner;
+    /// @custom:storage-location erc7201:example.Counter
+    struct CounterStorage {
+        uint256 count;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("example.Counter")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant CounterStorageLocation = 0xd1c3e3f6fc8eec6bee6475ecf55225b891b839befce7d314200bf1b314d35100;
+
+    /// @dev Returns the storage struct of the `erc7201:example.Counter` namespace.
+    function _getCounterStorage() private pure returns (CounterStorage storage $) {
+        assembly {
+            $.slot := CounterStorageLocation
+        }
+    }
+
+    mapping(address => uint256) public balances;
+    //~^^^ VariableCanBeNamespaced //~^^ VariableHasInitialValue //~^ VariableCanBeNamespaced
+    uint256 constant MAX = 10;
+
+    function initialize() public initializer {
+        CounterStorage storage $ = _getCounterStorage();
+        $.count = 1;
+        owner = msg.sender;
+    }
+
+    modifier onlyOwner() {
+        require(msg.sender == owner);
+        _;
+    }
+
+    function increment() public onlyOwner {
+        CounterStorage storage $ = _getCounterStorage();
+        require($.count < MAX);
+        $.count++;
+        balances[msg.sender] += 1;
+    }
+
+    function getCount() public view returns (uint256) {
+        CounterStorage storage $ = _getCounterStorage();
+        return $.count;
+    }
+}
+
+contract NotUpgradeable { //~ ContractCanBeNamespaced
+    uint256 count;
+}
@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+
+contract Token is Initializable {
+    /// @custom:storage-location erc7201:example.Token
+    struct TokenStorage { //~ NamespaceFieldsAppendOnly
+        uint256 totalSupply;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("example.Token")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant TokenStorageLocation = 0x51eed31d981c267b21d92d46d1e31cfd1b19caf8c7aaadac9cda2ac16bfc2600;
+}
+
+contract Vault is Initializable {
+    /**
+     * @dev Storage of the vault.
+     * @custom:storage-location erc7201:example.Vault
+     */
+    struct VaultStorage { //~^^^^ NamespaceIdMismatch //~ NamespaceFieldsAppendOnly
+        uint256 assets;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("example.Other")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant VaultStorageLocation = 0x0; //~^ NamespaceIdMismatchHashComment //~ NamespaceHashMismatch
+}
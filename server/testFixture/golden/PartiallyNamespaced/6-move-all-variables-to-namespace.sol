@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+
+contract Wallet is Initializable { //~ ContractCanBeNamespaced
+    /// @custom:storage-location erc7201:example.Wallet
+    struct WalletStorage { //~ NamespaceFieldsAppendOnly
+        address owner;
+        uint256 limit;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("example.Wallet")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant WalletStorageLocation = 0x21a23793a770c55f511c6184e65c7268dfbc8e2324a18f78b9825ed715214700;
+
+    function _getWalletStorage() private pure returns (WalletStorage storage $) {
+        assembly {
+            $.slot := WalletStorageLocation
+        }
+    }
+
+    //~^ VariableHasInitialValue
+
+    function initialize() public initializer {
+        WalletStorage storage $ = _getWalletStorage();
+        $.limit = 100;
+        $.owner = msg.sender;
+    }
+
+    function reset() public {
+        WalletStorage storage $ = _getWalletStorage();
+        $.limit = 0;
+        $.owner = address(0);
+    }
+}
@@ -0,0 +1,56 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+
+contract Counter is Initializable { //~ ContractCanBeNamespaced
+    uint128 count;
+    //~^ VariableCanBeNamespaced
+    address owner;
+    //~^ VariableCanBeNamespaced
+    bool paused;
+    //~^ VariableCanBeNamespaced
+
+    /**
+     * @dev This empty reserved space is put in place to allow future versions to add new
+     * variables without shifting down storage in the inheritance chain.
+     */
+    uint256[48] private __gap;
+}
+
+contract Registry is Initializable { //~ ContractCanBeNamespaced
+    /// @custom:storage-location erc7201:example.Registry
+    struct RegistryStorage {
+        mapping(address => uint256) balances;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("example.Registry")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant RegistryStorageLocation = 0xf5fc2c86ce961771fb64832bfedc31c35ff67311f498afc488f0f93f727bd300;
+
+    /// @dev Returns the storage struct of the `erc7201:example.Registry` namespace.
+    function _getRegistryStorage() private pure returns (RegistryStorage storage $) {
+        assembly {
+            $.slot := RegistryStorageLocation
+        }
+    }
+
+    //~^ VariableCanBeNamespaced
+    uint8[40] levels;
+    //~^ VariableCanBeNamespaced
+
+    uint256[50] private __gap;
+    //~^ StorageGapSizeMismatch
+}
+
+contract Vault is Initializable {
+    /// @custom:storage-location erc7201:example.Vault
+    struct VaultStorage { //~ NamespaceFieldsAppendOnly
+        uint256 assets;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("example.Vault")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant VaultStorageLocation = 0x0272d3d6bdcbb39afe6d611a6b18848dc13723ef227fc1ae2ec069ad2ccefe00;
+
+    uint256[50] private __gap;
+    //~^ StorageGapCanBeRemoved
+}